@@ -0,0 +1,177 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { ChevronDown, ChevronUp, MessageSquare, Send } from "lucide-react"
+import type { Socket } from "socket.io-client"
+
+// Same ids and text as the server, which sends the text along with each emote
+const QUICK_EMOTES = {
+  hello: "Hello!",
+  niceHand: "Nice hand!",
+  oops: "Oops",
+  wow: "Wow!",
+  thinking: "Hmm...",
+  goodGame: "Good game",
+}
+
+const MAX_MESSAGE_LENGTH = 200
+
+interface ChatMessage {
+  id: string
+  playerId: string
+  playerName: string
+  text: string
+  emote: keyof typeof QUICK_EMOTES | null
+  sentAt: number
+}
+
+interface ChatPanelProps {
+  socket: Socket | null
+  // null is the lobby chat
+  roomId: string | null
+  myName: string
+  title?: string
+}
+
+export default function ChatPanel({ socket, roomId, myName, title = "Chat" }: ChatPanelProps) {
+  const [messages, setMessages] = useState<ChatMessage[]>([])
+  const [draft, setDraft] = useState("")
+  const [chatError, setChatError] = useState<string | null>(null)
+  // Starts folded away on phones, where the table needs the room
+  const [open, setOpen] = useState(() => typeof window !== "undefined" && window.innerWidth >= 640)
+  const [unread, setUnread] = useState(0)
+  const openRef = useRef(open)
+  openRef.current = open
+  const listRef = useRef<HTMLDivElement>(null)
+
+  useEffect(() => {
+    if (!socket) return
+
+    const messageEvent = roomId ? "chatMessage" : "lobbyChatMessage"
+
+    if (roomId) {
+      socket.on("chatHistory", ({ roomId: historyRoomId, messages: history }) => {
+        if (historyRoomId === roomId) setMessages(history)
+      })
+    } else {
+      socket.on("lobbyChatHistory", setMessages)
+    }
+
+    socket.on(messageEvent, (message: ChatMessage) => {
+      setMessages((prev) => [...prev, message])
+      if (!openRef.current) setUnread((count) => count + 1)
+    })
+
+    socket.on("chatError", (error: string) => {
+      setChatError(error)
+      setTimeout(() => setChatError(null), 3000)
+    })
+
+    if (roomId) {
+      socket.emit("getChatHistory", { roomId })
+    } else {
+      socket.emit("getLobbyChat")
+    }
+
+    return () => {
+      socket.off(roomId ? "chatHistory" : "lobbyChatHistory")
+      socket.off(messageEvent)
+      socket.off("chatError")
+    }
+  }, [socket, roomId])
+
+  // Keep the newest message in view
+  useEffect(() => {
+    if (open && listRef.current) listRef.current.scrollTop = listRef.current.scrollHeight
+  }, [messages, open])
+
+  const toggleOpen = () => {
+    setOpen(!open)
+    setUnread(0)
+  }
+
+  const send = (message: { text?: string; emote?: string }) => {
+    if (roomId) {
+      socket?.emit("sendChatMessage", { roomId, ...message })
+    } else {
+      socket?.emit("sendLobbyChatMessage", message)
+    }
+  }
+
+  const sendMessage = () => {
+    if (!draft.trim()) return
+    send({ text: draft.trim() })
+    setDraft("")
+  }
+
+  const sendEmote = (emote: keyof typeof QUICK_EMOTES) => {
+    send({ emote })
+  }
+
+  return (
+    <Card className="mb-3 sm:mb-4 bg-black/30 border-gray-600">
+      <CardContent className="p-2 sm:p-3">
+        <button onClick={toggleOpen} className="w-full flex items-center justify-between text-white text-xs sm:text-sm">
+          <span className="flex items-center gap-2 font-bold">
+            <MessageSquare className="w-3 h-3 sm:w-4 sm:h-4" />
+            {title}
+            {unread > 0 && <span className="bg-red-600 rounded-full px-2 text-xs">{unread}</span>}
+          </span>
+          {open ? <ChevronUp className="w-4 h-4" /> : <ChevronDown className="w-4 h-4" />}
+        </button>
+
+        {open && (
+          <div className="mt-2 space-y-2">
+            <div ref={listRef} className="h-32 sm:h-40 overflow-y-auto space-y-1 text-xs sm:text-sm">
+              {messages.length === 0 ? (
+                <p className="text-gray-400 text-center py-4">No messages yet</p>
+              ) : (
+                messages.map((message) => (
+                  <div key={message.id} className="break-words">
+                    <span className={message.playerName === myName ? "text-blue-300" : "text-red-300"}>
+                      {message.playerName}:
+                    </span>{" "}
+                    <span className={message.emote ? "text-yellow-300 italic" : "text-gray-200"}>{message.text}</span>
+                  </div>
+                ))
+              )}
+            </div>
+
+            <div className="flex flex-wrap gap-1">
+              {Object.entries(QUICK_EMOTES).map(([emote, text]) => (
+                <Button
+                  key={emote}
+                  type="button"
+                  size="sm"
+                  onClick={() => sendEmote(emote as keyof typeof QUICK_EMOTES)}
+                  className="bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50 text-xs h-7 px-2"
+                >
+                  {text}
+                </Button>
+              ))}
+            </div>
+
+            {chatError && <p className="text-red-400 text-xs">{chatError}</p>}
+
+            <div className="flex gap-2">
+              <Input
+                placeholder="Say something..."
+                value={draft}
+                maxLength={MAX_MESSAGE_LENGTH}
+                onChange={(e) => setDraft(e.target.value)}
+                onKeyDown={(e) => e.key === "Enter" && sendMessage()}
+                className="text-base sm:text-sm"
+              />
+              <Button onClick={sendMessage} disabled={!draft.trim()} className="bg-purple-600 hover:bg-purple-700">
+                <Send className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
@@ -1,32 +1,17 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState, useEffect, useRef } from "react"
 import { Card, CardContent } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
-import { Heart, Spade, Diamond, Club, Crown, Trash2, Shield, Eye, Zap, LogOut, Menu, X, ArrowDown01 } from "lucide-react"
+import { Heart, Spade, Diamond, Club, Crown, Trash2, Shield, Eye, Zap, LogOut, Menu, X, ArrowDown01, Link2, Crosshair, Send, Users, Trophy, Swords } from "lucide-react"
+import Link from "next/link"
 import type { Socket } from "socket.io-client"
-
-interface PlayingCard {
-  id: string
-  suit: "hearts" | "diamonds" | "clubs" | "spades"
-  rank: number
-  selected: boolean
-  markedForDiscard: boolean
-}
-
-interface GamePlayer {
-  id: string
-  name: string
-  health: number
-  maxHealth?: number
-  hand: PlayingCard[]
-  selectedCards: PlayingCard[]
-  discardsUsed: number
-  maxDiscards: number
-  maxCardsPerDiscard: number
-  armor?: number
-  prediction?: string
-}
+import { HAND_RANKINGS, HAND_TYPES, evaluateHand, type PlayingCard } from "@shared/rules"
+import { useGameSnapshot, type ParryResolution, type PredictionReveal } from "@/hooks/use-game-snapshot"
+import { describeRefills } from "@/lib/game-modes"
+import { verifyPrediction } from "@/lib/sealed-predictions"
+import ChatPanel from "./ChatPanel"
+import TurnClockBar from "./TurnClockBar"
 
 interface HandResult {
   type: string
@@ -34,387 +19,190 @@ interface HandResult {
   description: string
 }
 
-interface GameRoomProps {
-  socket: Socket | null
-  roomId: string
-  player: { id: string; name: string }
-  onLeave: () => void
-  gameMode: string
+// Ranked games only: a player's rating before and after the result
+interface RatingChange {
+  before: number
+  after: number
 }
 
-const HAND_RANKINGS = {
-  "Royal Flush": { damage: 150, description: "A, K, Q, J, 10 of same suit" },
-  "Straight Flush": { damage: 80, description: "5 consecutive cards of same suit" },
-  "Four of a Kind": { damage: 60, description: "4 cards of same rank" },
-  "Full House": { damage: 45, description: "3 of a kind + pair" },
-  Flush: { damage: 30, description: "5 cards of same suit" },
-  Straight: { damage: 25, description: "5 consecutive cards" },
-  "Three of a Kind": { damage: 20, description: "3 cards of same rank" },
-  "Two Pair": { damage: 10, description: "2 pairs of different ranks" },
-  "One Pair": { damage: 5, description: "2 cards of same rank" },
-  "High Card": { damage: 1, description: "Highest card" },
+const PARRY_OUTCOMES = {
+  failed: { name: "Parry failed", className: "text-gray-300" },
+  matched: { name: "Parried", className: "text-blue-300" },
+  reflected: { name: "Reflected", className: "text-purple-300" },
 }
 
-const HAND_TYPES = Object.keys(HAND_RANKINGS)
-
-// Damage calculation function (same as server)
-function calculateDamagePreview(cards: PlayingCard[]) {
-  if (cards.length === 0) return { type: "No Cards", damage: 0, valid: false }
-
-  // Validate hand first
-  const validation = validateHandPreview(cards)
-  if (!validation.valid) {
-    return { type: "Invalid", damage: 0, valid: false, error: validation.error }
-  }
-
-  const sortedCards = [...cards].sort((a, b) => a.rank - b.rank)
-  const ranks = sortedCards.map((c) => c.rank)
-  const suits = sortedCards.map((c) => c.suit)
-
-  // Calculate face value damage
-  const faceValueDamage = cards.reduce((total, card) => {
-    if (card.rank === 1) return total + 14
-    if (card.rank === 13) return total + 13
-    if (card.rank === 12) return total + 12
-    if (card.rank === 11) return total + 11
-    return total + card.rank
-  }, 0)
-
-  const rankCounts: { [key: number]: number } = {}
-  ranks.forEach((rank) => {
-    rankCounts[rank] = (rankCounts[rank] || 0) + 1
-  })
-
-  const counts = Object.values(rankCounts).sort((a, b) => b - a)
-  const isFlush = suits.every((suit) => suit === suits[0]) && cards.length === 5
-
-  // Straight evaluation
-  let isStraight = false
-  let isLowStraight = false
-  let isRoyal = false
-
-  if (cards.length === 5 && new Set(ranks).size === 5) {
-    isLowStraight = ranks.join(",") === "1,2,3,4,5"
-    if (!isLowStraight) {
-      isStraight = ranks[4] - ranks[0] === 4
-    }
-    isRoyal = isFlush && ranks.join(",") === "1,10,11,12,13"
-  }
-
-  let handType = ""
-  let baseDamage = 0
-
-  if (isRoyal) {
-    handType = "Royal Flush"
-    baseDamage = HAND_RANKINGS["Royal Flush"].damage
-  } else if (isFlush && (isStraight || isLowStraight)) {
-    handType = "Straight Flush"
-    baseDamage = HAND_RANKINGS["Straight Flush"].damage
-  } else if (counts[0] === 4) {
-    handType = "Four of a Kind"
-    baseDamage = HAND_RANKINGS["Four of a Kind"].damage
-  } else if (counts[0] === 3 && counts[1] === 2) {
-    handType = "Full House"
-    baseDamage = HAND_RANKINGS["Full House"].damage
-  } else if (isFlush) {
-    handType = "Flush"
-    baseDamage = HAND_RANKINGS["Flush"].damage
-  } else if (isStraight || isLowStraight) {
-    handType = "Straight"
-    baseDamage = HAND_RANKINGS["Straight"].damage
-  } else if (counts[0] === 3) {
-    handType = "Three of a Kind"
-    baseDamage = HAND_RANKINGS["Three of a Kind"].damage
-  } else if (counts[0] === 2 && counts[1] === 2) {
-    handType = "Two Pair"
-    baseDamage = HAND_RANKINGS["Two Pair"].damage
-  } else if (counts[0] === 2) {
-    handType = "One Pair"
-    baseDamage = HAND_RANKINGS["One Pair"].damage
-  } else {
-    handType = "High Card"
-    baseDamage = HAND_RANKINGS["High Card"].damage
-  }
-
-  const totalDamage = baseDamage + faceValueDamage
-
-  return {
-    type: handType,
-    damage: totalDamage,
-    valid: true,
-    baseDamage,
-    faceValueDamage,
-  }
+// Health panels per row, yours plus one for each opponent
+const PANEL_GRID_COLUMNS: Record<number, string> = {
+  2: "grid-cols-2",
+  3: "grid-cols-3",
+  4: "grid-cols-2 sm:grid-cols-4",
 }
 
-function validateHandPreview(cards: PlayingCard[]) {
-  if (cards.length === 0) return { valid: false, error: "No cards selected" }
-
-  const sortedCards = [...cards].sort((a, b) => a.rank - b.rank)
-  const ranks = sortedCards.map((c) => c.rank)
-  const suits = sortedCards.map((c) => c.suit)
-
-  const rankCounts: { [key: number]: number } = {}
-  ranks.forEach((rank) => {
-    rankCounts[rank] = (rankCounts[rank] || 0) + 1
-  })
-
-  const counts = Object.values(rankCounts).sort((a, b) => b - a)
-  const isFlush = suits.every((suit) => suit === suits[0]) && cards.length === 5
-
-  let isStraight = false
-  let isLowStraight = false
-  let isRoyal = false
-
-  if (cards.length === 5 && new Set(ranks).size === 5) {
-    isLowStraight = ranks.join(",") === "1,2,3,4,5"
-    if (!isLowStraight) {
-      isStraight = ranks[4] - ranks[0] === 4
-    }
-    isRoyal = isFlush && ranks.join(",") === "1,10,11,12,13"
-  }
-
-  switch (cards.length) {
-    case 1:
-      return { valid: true }
-    case 2:
-      if (counts[0] !== 2) {
-        return { valid: false, error: "Two cards must be a pair (same rank)" }
-      }
-      return { valid: true }
-    case 3:
-      if (counts[0] !== 3) {
-        return { valid: false, error: "Three cards must be three of a kind (same rank)" }
-      }
-      return { valid: true }
-    case 4:
-      if (counts[0] === 4) {
-        return { valid: true }
-      }
-      if (counts[0] === 2 && counts[1] === 2) {
-        return { valid: true }
-      }
-      return {
-        valid: false,
-        error: "Four cards must be either four of a kind or two pair",
-      }
-    case 5:
-      if (isRoyal) return { valid: true }
-      if (isFlush && (isStraight || isLowStraight)) return { valid: true }
-      if (counts[0] === 3 && counts[1] === 2) return { valid: true }
-      if (isFlush) return { valid: true }
-      if (isStraight || isLowStraight) return { valid: true }
-      return { valid: false, error: "5 cards must form: Straight, Flush, Full House, Straight Flush, or Royal Flush" }
-    default:
-      return { valid: false, error: `Invalid number of cards: ${cards.length}. Play 1, 2, 3, 4, or 5 cards only.` }
-  }
+interface GameRoomProps {
+  socket: Socket | null
+  roomId: string
+  player: { id: string; name: string }
+  onLeave: () => void
+  gameMode: string
 }
 
 export default function GameRoom({ socket, roomId, player, onLeave, gameMode }: GameRoomProps) {
-  const [players, setPlayers] = useState<GamePlayer[]>([])
-  const [currentPlayer, setCurrentPlayer] = useState(0)
-  const [turn, setTurn] = useState(1)
   const [showRankings, setShowRankings] = useState(false)
   const [lastPlayedHand, setLastPlayedHand] = useState<HandResult | null>(null)
-  const [gameEnded, setGameEnded] = useState(false)
-  const [winner, setWinner] = useState<GamePlayer | null>(null)
-  const [gameLoaded, setGameLoaded] = useState(false)
   const [rematchRequested, setRematchRequested] = useState(false)
   const [waitingForRematch, setWaitingForRematch] = useState(false)
-  const [tacticalMode, setTacticalMode] = useState(false)
   const [selectedPrediction, setSelectedPrediction] = useState<string>("")
   const [showPredictionModal, setShowPredictionModal] = useState(false)
-  const [currentGameMode, setCurrentGameMode] = useState(gameMode)
   const [sortBy, setSortBy] = useState<"none" | "suit" | "value">("none")
-
-  const myPlayerIndex = players.findIndex((p) => p.id === player.id)
+  const [timeoutNotice, setTimeoutNotice] = useState<string | null>(null)
+  const [ratingChange, setRatingChange] = useState<RatingChange | null>(null)
+  const [matchId, setMatchId] = useState<string | null>(null)
+  const [targetIndex, setTargetIndex] = useState<number | null>(null)
+  const [teamNotice, setTeamNotice] = useState<string | null>(null)
+  // Cards picked for a parry on an opponent's turn, only sent once the parry is set
+  const [parryPicks, setParryPicks] = useState<string[]>([])
+  // The turn in which card clicks switched to marking discards
+  const [markingTurn, setMarkingTurn] = useState<number | null>(null)
+  const [parryReveal, setParryReveal] = useState<ParryResolution | null>(null)
+  const [predictionReveal, setPredictionReveal] = useState<PredictionReveal | null>(null)
+  // Whether the revealed prediction matches the commitment it was locked in with, null until checked
+  const [predictionVerified, setPredictionVerified] = useState<boolean | null>(null)
+
+  // Everything about the game itself is rendered from the server's snapshot
+  const { snapshot, receivedAt } = useGameSnapshot(socket, roomId)
+  const players = snapshot?.players ?? []
+  const currentPlayer = snapshot?.currentPlayer ?? 0
+  const turn = snapshot?.turn ?? 1
+  const currentGameMode = snapshot?.gameMode ?? gameMode
+  const armorEnabled = !!snapshot?.rules.armor
+  const predictionsEnabled = !!snapshot?.rules.predictions
+  const parryEnabled = !!snapshot?.rules.parry
+  const gameLoaded = !!snapshot && snapshot.gameState !== "waiting"
+  const gameEnded = snapshot?.gameState === "ended"
+  const winner = snapshot && snapshot.winner !== null ? players[snapshot.winner] : null
+  const turnClock = snapshot?.turnClock ? { ...snapshot.turnClock, receivedAt } : null
+  const series = snapshot?.series ?? null
+  const seriesWinner = series && series.winner !== null ? players[series.winner] : null
+  const tournament = snapshot?.tournament ?? null
+
+  const myPlayerIndex = snapshot?.viewerIndex ?? -1
+  // Socket handlers are registered once, they read the latest index through this ref
+  const myPlayerIndexRef = useRef(myPlayerIndex)
+  myPlayerIndexRef.current = myPlayerIndex
+  const maxPlayers = snapshot?.maxPlayers ?? 2
+  const maxPlayersRef = useRef(maxPlayers)
+  maxPlayersRef.current = maxPlayers
+  // Commitments of locked in predictions per seat, kept past the snapshot that clears them so the reveal can
+  // be checked against them
+  const commitmentsRef = useRef<(string | null)[]>([])
+  players.forEach((p, index) => {
+    if (p.predictionCommitment) commitmentsRef.current[index] = p.predictionCommitment
+  })
   const isMyTurn = currentPlayer === myPlayerIndex
   const myPlayer = players[myPlayerIndex]
-  const enemyPlayer = players.find((p) => p.id !== player.id)
+  const seats = players.map((p, index) => ({ ...p, index }))
+  // Team games: the teammate shares your health and shows you their hand
+  const teammate = snapshot?.teams
+    ? seats.find((p) => p.index !== myPlayerIndex && p.team === myPlayer?.team)
+    : undefined
+  // Everyone else at the table, with the seat attacks are aimed at
+  const opponents = seats.filter(({ index }) => index !== myPlayerIndex && index !== teammate?.index)
+  const livingOpponents = opponents.filter((p) => !p.eliminated)
+  const target = livingOpponents.find((p) => p.index === targetIndex) ?? livingOpponents[0]
+  const choosingTarget = isMyTurn && livingOpponents.length > 1
+  const disconnectedOpponents = livingOpponents.filter((p) => !p.connected)
+  const myHand: PlayingCard[] = myPlayer?.hand ?? []
+  const selectedCards = myHand.filter((c) => c.selected)
+  // A turn marks cards to discard first, then selects the hand to play. The server keeps the two apart.
+  const markedCards = myHand.filter((c) => c.markedForDiscard)
+  const markingDiscards = isMyTurn && markingTurn === snapshot?.turn
+  const canDiscard = !!myPlayer && markedCards.length > 0 && myPlayer.discardTokens > 0 && myPlayer.discardCooldown <= 0
+  const canPassCard =
+    isMyTurn && !!teammate && !teammate.eliminated && !myPlayer.passedCard && selectedCards.length === 1
+  // Parries are set while an opponent takes their turn
+  const canParry = parryEnabled && !isMyTurn && currentPlayer !== teammate?.index && !myPlayer?.eliminated && !gameEnded
+  const myParry: PlayingCard[] = myPlayer?.parry ?? []
+  const parryCards = myHand.filter((c) => parryPicks.includes(c.id))
+  const parryPreview = parryCards.length > 0 ? evaluateHand(parryCards) : null
+  const iWon = !!winner && (winner.id === player.id || (winner.team !== null && winner.team === myPlayer?.team))
 
   // Calculate damage preview for selected cards
-  const damagePreview = myPlayer ? calculateDamagePreview(myPlayer.selectedCards) : null
-
-  // Update game mode states when game mode changes
-  useEffect(() => {
-    console.log("🎮 Game mode updated:", currentGameMode)
-    setTacticalMode(currentGameMode === "tactical")
-  }, [currentGameMode])
-
-  // Update game mode when prop changes
-  useEffect(() => {
-    console.log("🔄 GameMode prop changed:", gameMode)
-    setCurrentGameMode(gameMode)
-  }, [gameMode])
+  const damagePreview = myPlayer
+    ? evaluateHand(selectedCards, { faceValueDamage: snapshot?.rules.faceValueDamage })
+    : null
 
   useEffect(() => {
     if (!socket) return
 
     console.log("🔌 Setting up socket listeners for player:", player.name)
 
-    socket.on("gameStarted", ({ room }) => {
-      console.log("🎮 Game started event received by", player.name, ":", {
-        roomId: room.id,
-        gameMode: room.gameMode,
-        playersCount: room.players?.length,
-        players: room.players?.map((p) => ({
-          id: p.id,
-          name: p.name,
-          handSize: p.hand?.length,
-          health: p.health,
-        })),
-      })
-
-      if (room.players && room.players.length >= 1) {
-        setPlayers(room.players)
-        setCurrentPlayer(room.currentPlayer || 0)
-        setTurn(room.turn || 1)
-        setCurrentGameMode(room.gameMode || "classic")
-        setGameLoaded(true)
-        console.log("✅ Game state loaded for", player.name, "with mode:", room.gameMode)
-      } else {
-        console.error("❌ Invalid room data for", player.name, room)
-      }
-    })
-
-    socket.on("playerJoined", ({ room }) => {
-      console.log("👥 Player joined event received by", player.name, ":", {
-        gameMode: room.gameMode,
-        playersCount: room.players?.length,
-        players: room.players?.map((p) => ({ id: p.id, name: p.name })),
-      })
-
-      if (room.players) {
-        setPlayers(
-          room.players.map((p) => ({
-            ...p,
-            hand: p.hand || [],
-            selectedCards: p.selectedCards || [],
-            health: p.health || 100,
-            maxHealth: p.maxHealth || 100,
-            discardsUsed: p.discardsUsed || 0,
-            maxDiscards: p.maxDiscards || 3,
-            maxCardsPerDiscard: p.maxCardsPerDiscard || 5,
-            armor: p.armor || 0,
-          })),
-        )
-        setCurrentGameMode(room.gameMode || "classic")
-        console.log("👥 Updated game mode from playerJoined:", room.gameMode)
-      }
-    })
-
-    socket.on("cardSelected", ({ playerIndex, cardId, selected }) => {
-      setPlayers((prev) => {
-        const newPlayers = [...prev]
-        const card = newPlayers[playerIndex]?.hand.find((c) => c.id === cardId)
-        if (card) {
-          card.selected = selected
-          newPlayers[playerIndex].selectedCards = newPlayers[playerIndex].hand.filter((c) => c.selected)
-        }
-        return newPlayers
-      })
+    socket.on("turnTimedOut", ({ playerIndex, action }) => {
+      const who = playerIndex === myPlayerIndexRef.current ? "You" : "Your opponent"
+      setTimeoutNotice(`${who} ran out of time - ${action === "pass" ? "turn passed" : "highest card played"}`)
+      setTimeout(() => {
+        setTimeoutNotice(null)
+      }, 3000)
     })
 
-    socket.on("gameStateUpdate", ({ players: updatedPlayers }) => {
-      setPlayers((prev) => {
-        return prev.map((player, index) => {
-          const updatedPlayer = updatedPlayers[index]
-          return {
-            ...player,
-            health: updatedPlayer?.health ?? player.health,
-            maxHealth: updatedPlayer?.maxHealth ?? player.maxHealth,
-            discardsUsed: updatedPlayer?.discardsUsed ?? player.discardsUsed,
-            maxDiscards: updatedPlayer?.maxDiscards ?? player.maxDiscards,
-            maxCardsPerDiscard: updatedPlayer?.maxCardsPerDiscard ?? player.maxCardsPerDiscard,
-            armor: updatedPlayer?.armor ?? player.armor,
-            hand: updatedPlayer?.hand ?? player.hand,
-            selectedCards: [],
-          }
-        })
-      })
-    })
+    const revealPrediction = (reveal: PredictionReveal | null) => {
+      setPredictionReveal(reveal)
+      setPredictionVerified(null)
+      const commitment = reveal && commitmentsRef.current[reveal.playerIndex]
+      if (!reveal?.salt || !commitment) return
+      commitmentsRef.current[reveal.playerIndex] = null
+      verifyPrediction(reveal.predicted, reveal.salt, commitment).then(setPredictionVerified)
+    }
 
-    socket.on("handPlayed", ({ playerIndex, handResult, newCurrentPlayer, turn: newTurn, players: updatedPlayers }) => {
+    socket.on("handPlayed", ({ handResult, parry, prediction }) => {
       setLastPlayedHand(handResult)
-      setCurrentPlayer(newCurrentPlayer)
-      setTurn(newTurn)
-
-      if (updatedPlayers) {
-        setPlayers((prev) => {
-          return prev.map((player, index) => {
-            const updatedPlayer = updatedPlayers[index]
-            return {
-              ...player,
-              health: updatedPlayer?.health ?? player.health,
-              maxHealth: updatedPlayer?.maxHealth ?? player.maxHealth,
-              discardsUsed: updatedPlayer?.discardsUsed ?? player.discardsUsed,
-              armor: updatedPlayer?.armor ?? player.armor,
-              prediction: updatedPlayer?.prediction ?? null,
-              selectedCards: [],
-              hand: updatedPlayer?.hand ?? player.hand,
-            }
-          })
-        })
-      }
-
+      setParryReveal(parry)
+      revealPrediction(prediction)
       setTimeout(() => {
         setLastPlayedHand(null)
+        setParryReveal(null)
+        setPredictionReveal(null)
       }, 3000)
     })
 
-    socket.on(
-      "armorBuilt",
-      ({ playerIndex, armorGained, handResult, newCurrentPlayer, turn: newTurn, players: updatedPlayers }) => {
-        setLastPlayedHand({ ...handResult, description: `Built ${armorGained} armor with ${handResult.type}` })
-        setCurrentPlayer(newCurrentPlayer)
-        setTurn(newTurn)
-
-        if (updatedPlayers) {
-          setPlayers((prev) => {
-            return prev.map((player, index) => {
-              const updatedPlayer = updatedPlayers[index]
-              return {
-                ...player,
-                health: updatedPlayer?.health ?? player.health,
-                maxHealth: updatedPlayer?.maxHealth ?? player.maxHealth,
-                discardsUsed: updatedPlayer?.discardsUsed ?? player.discardsUsed,
-                armor: updatedPlayer?.armor ?? player.armor,
-                prediction: updatedPlayer?.prediction ?? null,
-                selectedCards: [],
-                hand: updatedPlayer?.hand ?? player.hand,
-              }
-            })
-          })
-        }
-
-        setTimeout(() => {
-          setLastPlayedHand(null)
-        }, 3000)
-      },
-    )
+    socket.on("cardPassed", ({ targetIndex: receiverIndex }) => {
+      if (receiverIndex !== myPlayerIndexRef.current) return
+      setTeamNotice("Your teammate passed you a card")
+      setTimeout(() => {
+        setTeamNotice(null)
+      }, 3000)
+    })
 
-    socket.on("predictionMade", ({ playerIndex, prediction }) => {
-      setPlayers((prev) => {
-        const newPlayers = [...prev]
-        if (newPlayers[playerIndex]) {
-          newPlayers[playerIndex].prediction = prediction
-        }
-        return newPlayers
-      })
+    socket.on("armorBuilt", ({ armorGained, handResult }) => {
+      setLastPlayedHand({ ...handResult, description: `Built ${armorGained} armor with ${handResult.type}` })
+      setTimeout(() => {
+        setLastPlayedHand(null)
+      }, 3000)
     })
 
-    socket.on("gameEnded", ({ winner: gameWinner, handResult }) => {
+    socket.on("gameEnded", ({ handResult, parry, prediction, matchId: savedMatchId, ratingChanges }) => {
       setLastPlayedHand(handResult)
-      setWinner(gameWinner)
-      setGameEnded(true)
+      setParryReveal(parry)
+      revealPrediction(prediction)
+      setMatchId(savedMatchId || null)
+      setRatingChange(ratingChanges?.[player.id] || null)
     })
 
     socket.on("invalidHand", (error) => {
       alert(error)
     })
 
-    socket.on("playerLeft", () => {
-      alert("Your opponent has left the game")
+    socket.on("playerLeft", ({ playerName, ratingChanges }) => {
+      // A free-for-all room stays open for someone else to take the seat
+      if (maxPlayersRef.current > 2) {
+        alert(`${playerName} has left the room`)
+        return
+      }
+      const change: RatingChange | undefined = ratingChanges?.[player.id]
+      alert(
+        change
+          ? `Your opponent has left the game. You win by forfeit, rating ${change.before} → ${change.after}`
+          : "Your opponent has left the game",
+      )
       onLeave()
     })
 
@@ -427,17 +215,16 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
       setWaitingForRematch(true)
     })
 
-    socket.on("rematchAccepted", ({ room }) => {
-      setPlayers(room.players)
-      setCurrentPlayer(room.currentPlayer || 0)
-      setTurn(room.turn || 1)
-      setCurrentGameMode(room.gameMode || "classic")
-      setGameEnded(false)
-      setWinner(null)
+    socket.on("rematchAccepted", () => {
+      setRatingChange(null)
+      setMatchId(null)
       setLastPlayedHand(null)
+      setParryReveal(null)
+      setPredictionReveal(null)
+      setParryPicks([])
       setRematchRequested(false)
       setWaitingForRematch(false)
-      console.log("🔄 Rematch accepted with mode:", room.gameMode)
+      console.log("🔄 Rematch accepted")
     })
 
     socket.on("rematchDeclined", () => {
@@ -448,13 +235,10 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
 
     return () => {
       console.log("🧹 Cleaning up socket listeners for", player.name)
-      socket.off("gameStarted")
-      socket.off("playerJoined")
-      socket.off("cardSelected")
-      socket.off("gameStateUpdate")
+      socket.off("turnTimedOut")
       socket.off("handPlayed")
+      socket.off("cardPassed")
       socket.off("armorBuilt")
-      socket.off("predictionMade")
       socket.off("gameEnded")
       socket.off("invalidHand")
       socket.off("playerLeft")
@@ -463,7 +247,7 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
       socket.off("rematchAccepted")
       socket.off("rematchDeclined")
     }
-  }, [socket, onLeave, player.name])
+  }, [socket, onLeave, player.name, player.id])
 
   const sortCards = (cards:PlayingCard[], sortType: "none" | "suit" | "value") => {
     if (sortType==="none") return cards
@@ -522,22 +306,45 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
   }
 
   const handleCardClick = (cardId: string) => {
-    if (!socket || !isMyTurn) return
-    socket.emit("selectCard", { roomId, cardId })
+    if (!socket) return
+    if (canParry) {
+      setParryPicks((prev) => (prev.includes(cardId) ? prev.filter((id) => id !== cardId) : [...prev, cardId]))
+      return
+    }
+    if (!isMyTurn) return
+    socket.emit(markingDiscards ? "markForDiscard" : "selectCard", { roomId, cardId })
+  }
+
+  const handleDiscard = () => {
+    if (!socket || !canDiscard) return
+    socket.emit("discardCards", { roomId })
+    setMarkingTurn(null)
+  }
+
+  // Setting a new parry puts the current one back in the hand, no cards takes it back
+  const handleSetParry = (cardIds: string[]) => {
+    if (!socket || !canParry) return
+    socket.emit("setParry", { roomId, cardIds })
+    setParryPicks([])
   }
 
   const handlePlayHand = () => {
     if (!socket || !isMyTurn) return
-    socket.emit("playHand", { roomId })
+    socket.emit("playHand", { roomId, targetIndex: target?.index })
+  }
+
+  const handlePassCard = () => {
+    if (!socket || !canPassCard) return
+    socket.emit("passCard", { roomId, cardId: selectedCards[0].id })
   }
 
   const handleBuildArmor = () => {
-    if (!socket || !isMyTurn || !tacticalMode) return
+    if (!socket || !isMyTurn || !armorEnabled) return
     socket.emit("buildArmor", { roomId })
   }
 
   const handleMakePrediction = () => {
-    if (!socket || isMyTurn || !tacticalMode || !selectedPrediction) return
+    if (!socket || isMyTurn || !predictionsEnabled || !selectedPrediction) return
     socket.emit("makePrediction", { roomId, prediction: selectedPrediction })
     setShowPredictionModal(false)
     setSelectedPrediction("")
@@ -560,7 +367,7 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
     socket.emit("declineRematch", { roomId })
   }
 
-  if (!gameLoaded || players.length < 2 || !myPlayer || !enemyPlayer) {
+  if (!gameLoaded || players.length < 2 || !myPlayer) {
     return (
       <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black flex items-center justify-center p-4">
         <Card className="w-full max-w-md bg-black/50 border-red-500">
@@ -569,12 +376,31 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
             <h1 className="text-2xl font-bold text-red-400 mb-2">Loading Game...</h1>
             <p className="text-gray-300">Setting up the battlefield...</p>
             <div className="mt-4 space-y-2 text-sm">
-              <div className="text-gray-400">Players loaded: {players.length}/2</div>
+              <div className="text-gray-400">
+                Players loaded: {players.length}/{maxPlayers}
+              </div>
               <div className="text-gray-400">Game loaded: {gameLoaded ? "Yes" : "No"}</div>
               <div className="text-gray-400">Mode: {currentGameMode}</div>
-              <div className="text-gray-400">Tactical: {tacticalMode ? "Yes" : "No"}</div>
+              <div className="text-gray-400">Armor: {armorEnabled ? "Yes" : "No"}</div>
+              <div className="text-gray-400">Predictions: {predictionsEnabled ? "Yes" : "No"}</div>
               <div className="text-gray-400">Room: {roomId}</div>
             </div>
+            {snapshot?.gameState === "waiting" && snapshot.inviteCode && (
+              <div className="mt-4 p-3 bg-gray-800/50 rounded-lg border border-gray-600">
+                <div className="text-gray-300 text-sm">Invite code</div>
+                <div className="text-2xl font-mono font-bold text-white tracking-widest">{snapshot.inviteCode}</div>
+                <Button
+                  onClick={() =>
+                    navigator.clipboard?.writeText(`${window.location.origin}/join/${snapshot.inviteCode}`)
+                  }
+                  size="sm"
+                  className="mt-2 bg-purple-600 hover:bg-purple-700"
+                >
+                  <Link2 className="w-4 h-4 mr-1" />
+                  Copy invite link
+                </Button>
+              </div>
+            )}
             <Button onClick={onLeave} className="mt-6 bg-gray-600 hover:bg-gray-700">
               Back to Lobby
             </Button>
@@ -592,29 +418,36 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
           <h1 className="text-lg sm:text-2xl font-bold text-red-400 flex items-center gap-2">
             <Crown className="w-4 h-4 sm:w-6 sm:h-6" />
             The Demon's Hand
-            {tacticalMode && <Shield className="w-4 h-4 sm:w-5 sm:h-5 text-blue-400" />}
-            {currentGameMode === "recycling" && <span className="text-green-400 text-sm">♻️</span>}
+            {armorEnabled && <Shield className="w-4 h-4 sm:w-5 sm:h-5 text-blue-400" />}
+            {!!snapshot?.rules.discards.regenTurns && <span className="text-green-400 text-sm">♻️</span>}
           </h1>
           <div className="flex justify-between items-center text-xs sm:text-sm">
             <p>
-              Turn {turn} - {isMyTurn ? "Your Turn" : `${enemyPlayer?.name || "Opponent"}'s Turn`}
+              Turn {turn} - {isMyTurn ? "Your Turn" : `${players[currentPlayer]?.name || "Opponent"}'s Turn`}
             </p>
             <p className="text-gray-300">
-              Discards: {myPlayer.discardsUsed}/{myPlayer.maxDiscards} (max {myPlayer.maxCardsPerDiscard}/turn)
+              Discard tokens: {myPlayer.discardTokens}/{myPlayer.maxDiscardTokens} (max {myPlayer.maxCardsPerDiscard}{" "}
+              cards)
+              {myPlayer.discardRegenIn !== null && ` · +1 in ${myPlayer.discardRegenIn} turns`}
+              {myPlayer.discardCooldown > 0 && ` · ready in ${myPlayer.discardCooldown} turns`}
             </p>
           </div>
         </div>
 
         <div className="flex gap-2">
-          {tacticalMode && !isMyTurn && !myPlayer.prediction && (
-            <Button
-              onClick={() => setShowPredictionModal(true)}
-              className="bg-purple-600 hover:bg-purple-700 text-xs px-2 py-1"
-            >
-              <Eye className="w-3 h-3 mr-1" />
-              Predict
-            </Button>
-          )}
+          {predictionsEnabled &&
+            !isMyTurn &&
+            currentPlayer !== teammate?.index &&
+            !myPlayer.eliminated &&
+            !myPlayer.prediction && (
+              <Button
+                onClick={() => setShowPredictionModal(true)}
+                className="bg-purple-600 hover:bg-purple-700 text-xs px-2 py-1"
+              >
+                <Eye className="w-3 h-3 mr-1" />
+                Predict
+              </Button>
+            )}
           <Button
             onClick={() => setShowRankings(!showRankings)}
             className="sm:hidden bg-purple-600 hover:bg-purple-700 text-xs px-2 py-1"
@@ -628,6 +461,54 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
         </div>
       </div>
 
+      {/* Series Scoreboard */}
+      {series && (
+        <div className="mb-3 sm:mb-4 bg-black/30 rounded-lg p-2 sm:p-3 flex flex-wrap items-center justify-center gap-x-4 gap-y-1 text-xs sm:text-sm">
+          <span className="text-yellow-400 font-bold flex items-center gap-1">
+            <Trophy className="w-3 h-3 sm:w-4 sm:h-4" />
+            Best of {series.bestOf} - Game {series.game}
+          </span>
+          {players.map((p, index) => (
+            <span key={p.id} className={index === myPlayerIndex ? "text-blue-300" : "text-gray-300"}>
+              {p.name} <span className="text-white font-bold">{series.wins[index]}</span>
+            </span>
+          ))}
+        </div>
+      )}
+
+      {/* Turn Clock */}
+      {turnClock && !gameEnded && <TurnClockBar clock={turnClock} myPlayerIndex={myPlayerIndex} />}
+
+      {timeoutNotice && (
+        <Card className="mb-3 sm:mb-4 bg-red-900/30 border-red-500">
+          <CardContent className="p-2 sm:p-3 text-center text-red-300 text-xs sm:text-sm">{timeoutNotice}</CardContent>
+        </Card>
+      )}
+
+      {teamNotice && (
+        <Card className="mb-3 sm:mb-4 bg-blue-900/30 border-blue-500">
+          <CardContent className="p-2 sm:p-3 text-center text-blue-300 text-xs sm:text-sm">{teamNotice}</CardContent>
+        </Card>
+      )}
+
+      {/* Opponent Connection */}
+      {disconnectedOpponents.map((opponent) => (
+        <Card key={opponent.id} className="mb-3 sm:mb-4 bg-orange-900/30 border-orange-500">
+          <CardContent className="p-2 sm:p-3 text-center text-orange-300 text-xs sm:text-sm">
+            {opponent.name} lost connection. Their seat is held for a minute while they reconnect...
+          </CardContent>
+        </Card>
+      ))}
+
+      {/* Knocked out players watch the rest of the game */}
+      {myPlayer.eliminated && !gameEnded && (
+        <Card className="mb-3 sm:mb-4 bg-gray-900/50 border-gray-500">
+          <CardContent className="p-2 sm:p-3 text-center text-gray-300 text-xs sm:text-sm">
+            💀 You were knocked out. Watching the rest of the game...
+          </CardContent>
+        </Card>
+      )}
+
       {/* Hand Rankings */}
       {(showRankings || (typeof window !== "undefined" && window.innerWidth >= 640)) && (
         <div className="mb-3 sm:mb-4 bg-black/30 rounded-lg p-2 sm:p-3">
@@ -645,7 +526,7 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
       )}
 
       {/* Player Health Bars */}
-      <div className="grid grid-cols-2 gap-2 sm:gap-4 mb-3 sm:mb-6">
+      <div className={`grid ${PANEL_GRID_COLUMNS[players.length] ?? "grid-cols-2"} gap-2 sm:gap-4 mb-3 sm:mb-6`}>
         <Card className="bg-blue-900/30 border-blue-500">
           <CardContent className="p-2 sm:p-4">
             <div className="flex items-center justify-between">
@@ -657,7 +538,7 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
                 <span className="text-white text-sm sm:text-xl">
                   {myPlayer.health}/{myPlayer.maxHealth || 100}
                 </span>
-                {tacticalMode && myPlayer.armor > 0 && (
+                {armorEnabled && myPlayer.armor > 0 && (
                   <>
                     <Shield className="w-3 h-3 sm:w-4 sm:h-4 text-blue-400" />
                     <span className="text-blue-400 text-sm sm:text-xl">{myPlayer.armor}</span>
@@ -671,77 +552,241 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
                 style={{ width: `${(myPlayer.health / (myPlayer.maxHealth || 100)) * 100}%` }}
               ></div>
             </div>
-            {tacticalMode && myPlayer.prediction && (
+            {predictionsEnabled && myPlayer.prediction && (
               <div className="text-purple-400 text-xs mt-1">Your Prediction: {myPlayer.prediction}</div>
             )}
+            {teammate && (
+              <div className="text-blue-300 text-xs mt-1 flex items-center gap-1">
+                <Users className="w-3 h-3" />
+                Shared with your team
+              </div>
+            )}
           </CardContent>
         </Card>
 
-        <Card className="bg-red-900/30 border-red-500">
-          <CardContent className="p-2 sm:p-4">
-            <div className="flex items-center justify-between">
-              <span className="text-white font-bold text-xs sm:text-base">
-                {enemyPlayer?.name || "Opponent"} {!isMyTurn && "(Their Turn)"}
-              </span>
-              <div className="flex items-center gap-1 sm:gap-2">
-                <Heart className="w-3 h-3 sm:w-4 sm:h-4 text-red-400" />
-                <span className="text-white text-sm sm:text-xl">
-                  {enemyPlayer?.health || 0}/{enemyPlayer?.maxHealth || 100}
+        {teammate && (
+          <Card className={`bg-blue-900/20 border-blue-400 ${teammate.eliminated ? "opacity-50" : ""}`}>
+            <CardContent className="p-2 sm:p-4">
+              <div className="flex items-center justify-between">
+                <span className="text-white font-bold text-xs sm:text-base">
+                  {teammate.name} {currentPlayer === teammate.index && "(Their Turn)"}
+                </span>
+                <span className="text-blue-300 text-xs flex items-center gap-1">
+                  <Users className="w-3 h-3" />
+                  Teammate
                 </span>
-                {tacticalMode && enemyPlayer?.armor > 0 && (
-                  <>
-                    <Shield className="w-3 h-3 sm:w-4 sm:h-4 text-blue-400" />
-                    <span className="text-blue-400 text-sm sm:text-xl">{enemyPlayer.armor}</span>
-                  </>
-                )}
               </div>
-            </div>
-            <div className="w-full bg-gray-700 rounded-full h-1 sm:h-2 mt-1 sm:mt-2">
-              <div
-                className="bg-red-500 h-1 sm:h-2 rounded-full transition-all duration-300"
-                style={{ width: `${((enemyPlayer?.health || 0) / (enemyPlayer?.maxHealth || 100)) * 100}%` }}
-              ></div>
-            </div>
-            {tacticalMode && enemyPlayer?.prediction && (
-              <div className="text-purple-400 text-xs mt-1">Their Prediction: {enemyPlayer.prediction}</div>
-            )}
-          </CardContent>
-        </Card>
+              {predictionsEnabled && teammate.prediction && (
+                <div className="text-purple-400 text-xs mt-1">Their Prediction: {teammate.prediction}</div>
+              )}
+              {teammate.eliminated && <div className="text-gray-400 text-xs mt-1">🏳️ Left the game</div>}
+            </CardContent>
+          </Card>
+        )}
+
+        {opponents.map((opponent) => (
+          <Card
+            key={opponent.id}
+            onClick={() => choosingTarget && !opponent.eliminated && setTargetIndex(opponent.index)}
+            className={`bg-red-900/30 ${
+              choosingTarget && opponent.index === target?.index
+                ? "border-yellow-400 ring-2 ring-yellow-400"
+                : "border-red-500"
+            } ${opponent.eliminated ? "opacity-50" : choosingTarget ? "cursor-pointer" : ""}`}
+          >
+            <CardContent className="p-2 sm:p-4">
+              <div className="flex items-center justify-between">
+                <span className="text-white font-bold text-xs sm:text-base">
+                  {opponent.name} {currentPlayer === opponent.index && "(Their Turn)"}
+                </span>
+                <div className="flex items-center gap-1 sm:gap-2">
+                  <Heart className="w-3 h-3 sm:w-4 sm:h-4 text-red-400" />
+                  <span className="text-white text-sm sm:text-xl">
+                    {opponent.health || 0}/{opponent.maxHealth || 100}
+                  </span>
+                  {armorEnabled && opponent.armor > 0 && (
+                    <>
+                      <Shield className="w-3 h-3 sm:w-4 sm:h-4 text-blue-400" />
+                      <span className="text-blue-400 text-sm sm:text-xl">{opponent.armor}</span>
+                    </>
+                  )}
+                </div>
+              </div>
+              <div className="w-full bg-gray-700 rounded-full h-1 sm:h-2 mt-1 sm:mt-2">
+                <div
+                  className="bg-red-500 h-1 sm:h-2 rounded-full transition-all duration-300"
+                  style={{ width: `${((opponent.health || 0) / (opponent.maxHealth || 100)) * 100}%` }}
+                ></div>
+              </div>
+              {predictionsEnabled && opponent.prediction && (
+                <div className="text-purple-400 text-xs mt-1">Their Prediction: {opponent.prediction}</div>
+              )}
+              {predictionsEnabled && !opponent.prediction && opponent.predictionCommitment && (
+                <div className="text-purple-400 text-xs mt-1">🔒 Prediction locked in</div>
+              )}
+              {parryEnabled && opponent.parrySize > 0 && (
+                <div className="text-purple-300 text-xs mt-1 flex items-center gap-1">
+                  <Swords className="w-3 h-3" />
+                  Parry set ({opponent.parrySize} face down)
+                </div>
+              )}
+              {opponent.eliminated && <div className="text-gray-400 text-xs mt-1">💀 Knocked out</div>}
+              {choosingTarget && opponent.index === target?.index && (
+                <div className="text-yellow-400 text-xs mt-1 flex items-center gap-1">
+                  <Crosshair className="w-3 h-3" />
+                  Target
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        ))}
       </div>
 
       {/* My Hand */}
       <div className="mb-4 sm:mb-6">
-        <div className=" flex justify-between items-center"><h3 className="text-white font-bold mb-2 text-sm sm:text-base">Your Hand ({myPlayer.hand.length})</h3>
+        <div className=" flex justify-between items-center"><h3 className="text-white font-bold mb-2 text-sm sm:text-base">Your Hand ({myHand.length})</h3>
         <div className=" flex gap-1 mb-2">
           <Button onClick={()=>setSortBy(sortBy==="suit"?"none":"suit")} className={`${sortBy === "suit" ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-600 hover:bg-gray-700'}`}>
             <svg fill="#000000" viewBox="0 0 32 32" version="1.1" xmlns="http://www.w3.org/2000/svg"><g id="SVGRepo_bgCarrier" strokeWidth="0"></g><g id="SVGRepo_tracerCarrier" stroke-linecap="round" stroke-linejoin="round"></g><g id="SVGRepo_iconCarrier"> <title>suits</title> <path d="M15.887 12.424c0.515-1.922 5.998-4.38 5.888-7.88-0.108-3.449-4.153-4.34-5.888-1.334-1.694-2.934-6.018-2.173-5.906 1.334 0.117 3.652 5.343 5.781 5.906 7.88zM10.549 24.249l5.334 6.561 5.334-6.561-5.334-6.561zM30.882 15.493c-0.105-3.291-5.321-7.1-5.321-7.1s-5.404 3.947-5.305 7.1c0.085 2.696 2.839 3.657 4.588 2.095l-1.533 3.672 4.516-0-1.534-3.675c1.773 1.523 4.677 0.642 4.589-2.092zM11.923 15.73c0-1.53-1.221-2.787-2.752-2.787-0.131 0-0.257 0.017-0.383 0.035 0.367-0.47 0.592-1.064 0.592-1.707 0-1.53-1.221-2.752-2.752-2.752s-2.786 1.221-2.786 2.752c0 0.638 0.23 1.238 0.592 1.707-0.115-0.014-0.229-0.035-0.348-0.035-1.53 0-2.787 1.256-2.787 2.787s1.256 2.786 2.787 2.786c0.624 0 1.201-0.21 1.665-0.561l-1.398 3.348 4.516-0-1.419-3.398c0.474 0.379 1.073 0.61 1.721 0.61 1.53 0 2.752-1.256 2.752-2.787zM6.629 8.52h0z"></path> </g></svg>
           </Button>
           <Button onClick={()=>setSortBy(sortBy==="value"?"none":"value")} className={`${sortBy === "value" ? 'bg-green-600 hover:bg-green-700' : 'bg-gray-600 hover:bg-gray-700'}`}><ArrowDown01 className=" text-black"/></Button>
         </div></div>
+        <p className="text-gray-400 text-xs mb-2">{describeRefills(snapshot.rules)}</p>
         <div className="flex gap-1 sm:gap-2 overflow-x-auto pb-2 items-center justify-center">
-          {sortCards(myPlayer.hand, sortBy).map((card) => (
+          {sortCards(myHand, sortBy).map((card) => (
             <Card
               key={card.id}
               className={`min-w-[60px] py-2 sm:py-2 sm:min-w-[70px] cursor-pointer transition-all duration-200 ${
-                !isMyTurn
-                  ? "opacity-50 cursor-not-allowed"
-                  : card.selected
-                    ? "bg-yellow-600 border-yellow-400 transform -translate-y-1 sm:-translate-y-2"
+                canParry
+                  ? parryPicks.includes(card.id)
+                    ? "bg-purple-400 border-purple-300 transform -translate-y-1 sm:-translate-y-2"
                     : "bg-white hover:bg-gray-100 "
+                  : !isMyTurn
+                    ? "opacity-50 cursor-not-allowed"
+                    : card.markedForDiscard
+                      ? "bg-orange-400 border-orange-300 opacity-75"
+                      : card.selected
+                        ? "bg-yellow-600 border-yellow-400 transform -translate-y-1 sm:-translate-y-2"
+                        : "bg-white hover:bg-gray-100 "
               }`}
               onClick={() => handleCardClick(card.id)}
             >
               <CardContent className="p-2 sm:p-3 text-center">
                 <div className="text-lg sm:text-2xl font-bold mb-1">{getRankDisplay(card.rank)}</div>
                 <div className="flex justify-center">{getSuitIcon(card.suit)}</div>
+                {card.markedForDiscard && <Trash2 className="w-3 h-3 mx-auto mt-1 text-orange-900" />}
               </CardContent>
             </Card>
           ))}
         </div>
       </div>
 
+      {/* Parry Zone */}
+      {parryEnabled && !myPlayer.eliminated && (canParry || myParry.length > 0) && (
+        <Card className="mb-3 sm:mb-4 bg-purple-900/30 border-purple-500">
+          <CardContent className="p-2 sm:p-4">
+            <div className="flex items-center justify-between mb-2">
+              <h3 className="text-purple-300 font-bold text-xs sm:text-sm flex items-center gap-1">
+                <Swords className="w-3 h-3 sm:w-4 sm:h-4" />
+                Parry {myParry.length > 0 && `(${evaluateHand(myParry).type}, face down)`}
+              </h3>
+              {canParry && myParry.length > 0 && (
+                <Button
+                  onClick={() => handleSetParry([])}
+                  className="bg-gray-600 hover:bg-gray-700 text-xs px-2 py-1 h-7"
+                >
+                  Take back
+                </Button>
+              )}
+            </div>
+            {myParry.length > 0 ? (
+              <div className="flex gap-1 overflow-x-auto pb-2 items-center justify-center">
+                {myParry.map((card) => (
+                  <Card key={card.id} className="min-w-[44px] py-1 bg-purple-200/80 border-purple-400">
+                    <CardContent className="p-1 text-center">
+                      <div className="text-base font-bold">{getRankDisplay(card.rank)}</div>
+                      <div className="flex justify-center">{getSuitIcon(card.suit)}</div>
+                    </CardContent>
+                  </Card>
+                ))}
+              </div>
+            ) : (
+              <p className="text-gray-300 text-xs sm:text-sm">
+                Pick cards from your hand to set aside. A parry of the attack's hand type softens the hit, a stronger
+                one reflects it back.
+              </p>
+            )}
+            {canParry && parryPreview && (
+              <div className="flex items-center justify-between gap-2 mt-2">
+                <span className={`text-xs sm:text-sm ${parryPreview.valid ? "text-purple-300" : "text-red-400"}`}>
+                  {parryPreview.valid ? parryPreview.type : parryPreview.error || "Invalid Hand"}
+                </span>
+                <Button
+                  onClick={() => handleSetParry(parryPicks)}
+                  disabled={!parryPreview.valid}
+                  className="bg-purple-600 hover:bg-purple-700 text-xs sm:text-sm"
+                >
+                  {myParry.length > 0 ? "Replace Parry" : "Set Parry"} ({parryCards.length} cards)
+                </Button>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Teammate's Hand */}
+      {teammate?.hand && !teammate.eliminated && (
+        <div className="mb-4 sm:mb-6">
+          <h3 className="text-blue-300 font-bold mb-2 text-xs sm:text-sm">
+            {teammate.name}'s Hand ({teammate.hand.length})
+          </h3>
+          <div className="flex gap-1 overflow-x-auto pb-2 items-center justify-center">
+            {sortCards(teammate.hand, sortBy).map((card) => (
+              <Card key={card.id} className={`min-w-[44px] py-1 ${card.selected ? "bg-yellow-600" : "bg-white/80"}`}>
+                <CardContent className="p-1 text-center">
+                  <div className="text-base font-bold">{getRankDisplay(card.rank)}</div>
+                  <div className="flex justify-center">{getSuitIcon(card.suit)}</div>
+                </CardContent>
+              </Card>
+            ))}
+          </div>
+        </div>
+      )}
+
+      {/* Discard Phase */}
+      {isMyTurn && (
+        <Card className="mb-3 sm:mb-4 bg-orange-900/30 border-orange-500">
+          <CardContent className="p-2 sm:p-4 flex flex-col sm:flex-row sm:items-center gap-2">
+            <div className="flex-1 text-xs sm:text-sm">
+              <div className="text-orange-300 font-bold">
+                {markingDiscards ? "Click cards to mark them for discard" : "Click cards to select your hand"}
+              </div>
+              <div className="text-gray-300">
+                To discard: {markedCards.length}/{myPlayer.maxCardsPerDiscard} · To play: {selectedCards.length}
+              </div>
+            </div>
+            <Button
+              onClick={() => setMarkingTurn(markingDiscards ? null : snapshot.turn)}
+              className={`text-xs sm:text-sm ${
+                markingDiscards ? "bg-yellow-600 hover:bg-yellow-700" : "bg-gray-600 hover:bg-gray-700"
+              }`}
+            >
+              {markingDiscards ? "Select hand" : "Mark discards"}
+            </Button>
+            <Button
+              onClick={handleDiscard}
+              disabled={!canDiscard}
+              className="bg-orange-600 hover:bg-orange-700 text-xs sm:text-sm"
+            >
+              <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+              Discard & draw ({markedCards.length})
+            </Button>
+          </CardContent>
+        </Card>
+      )}
+
       {/* Damage Preview */}
-      {isMyTurn && myPlayer.selectedCards.length > 0 && damagePreview && (
+      {isMyTurn && selectedCards.length > 0 && damagePreview && (
         <Card className="mb-3 sm:mb-4 bg-yellow-900/30 border-yellow-500">
           <CardContent className="p-2 sm:p-4 text-center">
             <div className="flex items-center justify-center gap-2">
@@ -766,16 +811,16 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
       {/* Action Buttons */}
       {isMyTurn && (
         <div className="flex flex-col sm:flex-row gap-2 mb-3 sm:mb-4">
-          {myPlayer.selectedCards.length > 0 ? (
+          {selectedCards.length > 0 ? (
             // Show options when cards are selected
             <>
               <Button
                 onClick={handlePlayHand}
                 className="flex-1 bg-red-600 hover:bg-red-700 text-xs sm:text-sm px-2 py-1 sm:px-4 sm:py-2"
               >
-                Attack ({myPlayer.selectedCards.length} cards)
+                {choosingTarget && target ? `Attack ${target.name}` : "Attack"} ({selectedCards.length} cards)
               </Button>
-              {tacticalMode && (
+              {armorEnabled && (
                 <Button
                   onClick={handleBuildArmor}
                   className="flex-1 bg-blue-600 hover:bg-blue-700 text-xs sm:text-sm px-2 py-1 sm:px-4 sm:py-2"
@@ -784,20 +829,16 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
                   Build Armor
                 </Button>
               )}
-              <Button
-                onClick={() => {
-                  if (!socket) return
-                  socket.emit("discardCards", { roomId })
-                }}
-                disabled={
-                  myPlayer.discardsUsed >= myPlayer.maxDiscards ||
-                  myPlayer.selectedCards.length > myPlayer.maxCardsPerDiscard
-                }
-                className="flex-1 bg-orange-600 hover:bg-orange-700 text-xs sm:text-sm px-2 py-1 sm:px-4 sm:py-2"
-              >
-                <Trash2 className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
-                Discard ({myPlayer.selectedCards.length}/{myPlayer.maxCardsPerDiscard})
-              </Button>
+              {teammate && (
+                <Button
+                  onClick={handlePassCard}
+                  disabled={!canPassCard}
+                  className="flex-1 bg-sky-600 hover:bg-sky-700 text-xs sm:text-sm px-2 py-1 sm:px-4 sm:py-2"
+                >
+                  <Send className="w-3 h-3 sm:w-4 sm:h-4 mr-1 sm:mr-2" />
+                  {myPlayer.passedCard ? "Card passed" : `Pass 1 card to ${teammate.name}`}
+                </Button>
+              )}
             </>
           ) : (
             <>
@@ -818,6 +859,58 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
         </Card>
       )}
 
+      {/* Prediction Reveal */}
+      {predictionReveal && (
+        <Card className="mb-3 sm:mb-4 bg-purple-900/30 border-purple-500 animate-in zoom-in-95 fade-in duration-300">
+          <CardContent className="p-2 sm:p-4 text-center">
+            <div
+              className={`font-bold text-sm sm:text-lg ${predictionReveal.correct ? "text-green-400" : "text-red-400"}`}
+            >
+              {players[predictionReveal.playerIndex]?.name} predicted {predictionReveal.predicted}:{" "}
+              {predictionReveal.correct ? "correct" : "wrong"}, damage ×{predictionReveal.multiplier}
+            </div>
+            {predictionVerified !== null && (
+              <div className="text-gray-300 text-xs sm:text-sm">
+                {predictionVerified ? "🔒 Matches the sealed prediction" : "⚠️ Does not match the sealed prediction"}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Parry Reveal */}
+      {parryReveal && (
+        <Card className="mb-3 sm:mb-4 bg-purple-900/30 border-purple-500 animate-in fade-in duration-300">
+          <CardContent className="p-2 sm:p-4 text-center">
+            <div className="flex gap-1 items-center justify-center mb-2">
+              {parryReveal.cards.map((card, index) => (
+                <Card
+                  key={card.id}
+                  className="min-w-[44px] py-1 bg-white animate-in spin-in-90 zoom-in-50 duration-500 fill-mode-backwards"
+                  style={{ animationDelay: `${index * 150}ms` }}
+                >
+                  <CardContent className="p-1 text-center">
+                    <div className="text-base font-bold">{getRankDisplay(card.rank)}</div>
+                    <div className="flex justify-center">{getSuitIcon(card.suit)}</div>
+                  </CardContent>
+                </Card>
+              ))}
+            </div>
+            <div className={`font-bold text-sm sm:text-lg ${PARRY_OUTCOMES[parryReveal.outcome].className}`}>
+              {PARRY_OUTCOMES[parryReveal.outcome].name}!
+            </div>
+            <div className="text-gray-300 text-xs sm:text-sm">
+              {players[parryReveal.playerIndex]?.name} revealed a {parryReveal.handType} parry
+              {parryReveal.negated > 0 && `, ${parryReveal.negated} damage stopped`}
+              {parryReveal.reflected > 0 && `, ${parryReveal.reflected} reflected back`}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      {/* Chat */}
+      <ChatPanel socket={socket} roomId={roomId} myName={myPlayer.name} />
+
       {/* Prediction Modal */}
       {showPredictionModal && (
         <div className="fixed inset-0 bg-black/80 flex items-center justify-center p-4 z-50">
@@ -869,10 +962,59 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
             <CardContent className="p-6 sm:p-8 text-center">
               <div className="text-4xl sm:text-6xl mb-4">{winner ? "👑" : "🤝"}</div>
               <h2 className="text-xl sm:text-3xl font-bold text-red-400 mb-4">
-                {winner ? (winner.id === player.id ? "You Win!" : `${winner.name} Wins!`) : "Draw Game!"}
+                {winner
+                  ? teammate
+                    ? iWon
+                      ? "Your Team Wins!"
+                      : `${winner.name}'s Team Wins!`
+                    : iWon
+                      ? "You Win!"
+                      : `${winner.name} Wins!`
+                  : "Draw Game!"}
               </h2>
+              {seriesWinner && (
+                <p className="text-yellow-400 font-bold mb-4 flex items-center justify-center gap-2">
+                  <Trophy className="w-4 h-4" />
+                  {seriesWinner.id === player.id || (teammate && seriesWinner.id === teammate.id)
+                    ? "You win the series!"
+                    : `${seriesWinner.name} wins the series!`}
+                </p>
+              )}
+              {series && !seriesWinner && (
+                <p className="text-sm text-gray-300 mb-4">
+                  Series {players.map((_, index) => series.wins[index]).join(" - ")}, first to{" "}
+                  {Math.floor(series.bestOf / 2) + 1} wins
+                </p>
+              )}
+              {ratingChange && (
+                <p className="text-sm text-gray-300 mb-4">
+                  Rating {ratingChange.before} → {ratingChange.after}{" "}
+                  <span className={ratingChange.after >= ratingChange.before ? "text-green-400" : "text-red-400"}>
+                    ({ratingChange.after >= ratingChange.before ? "+" : ""}
+                    {ratingChange.after - ratingChange.before})
+                  </span>
+                </p>
+              )}
+              {matchId && (
+                <Link
+                  href={`/replay/${matchId}`}
+                  target="_blank"
+                  className="block text-sm text-purple-400 hover:text-purple-300 mb-4"
+                >
+                  Watch replay
+                </Link>
+              )}
 
-              {waitingForRematch ? (
+              {tournament?.decided ? (
+                <div className="space-y-2">
+                  <Link href={`/tournaments/${tournament.id}`} target="_blank" className="block">
+                    <Button className="w-full bg-purple-600 hover:bg-purple-700">View Bracket</Button>
+                  </Link>
+                  <Button onClick={onLeave} className="w-full bg-red-600 hover:bg-red-700">
+                    Back to Lobby
+                  </Button>
+                </div>
+              ) : waitingForRematch ? (
                 <div className="space-y-4">
                   <p className="text-yellow-400">Opponent wants a rematch!</p>
                   <div className="flex gap-2">
@@ -894,7 +1036,11 @@ export default function GameRoom({ socket, roomId, player, onLeave, gameMode }:
               ) : (
                 <div className="space-y-2">
                   <Button onClick={handleRematch} className="w-full bg-blue-600 hover:bg-blue-700">
-                    Rematch
+                    {series
+                      ? seriesWinner
+                        ? "New Series"
+                        : `Next Game (${series.game + 1} of ${series.bestOf})`
+                      : "Rematch"}
                   </Button>
                   <Button onClick={onLeave} className="w-full bg-red-600 hover:bg-red-700">
                     Back to Lobby
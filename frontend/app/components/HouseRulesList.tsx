@@ -0,0 +1,29 @@
+import { type GameMode, type RuleOverride, type RuleOverrides, formatRuleValue, getRuleValue } from "@/lib/game-modes"
+
+interface HouseRulesListProps {
+  mode: GameMode | undefined
+  ruleOverrides: RuleOverrides
+  ruleDefinitions: Record<string, RuleOverride>
+}
+
+// A room's custom rules next to the mode's defaults they replace
+export default function HouseRulesList({ mode, ruleOverrides, ruleDefinitions }: HouseRulesListProps) {
+  return (
+    <ul className="space-y-1 text-sm">
+      {Object.entries(ruleOverrides).map(([key, value]) => {
+        const rule = ruleDefinitions[key]
+        return (
+          <li key={key} className="flex justify-between">
+            <span>{rule?.label || key}</span>
+            <span>
+              {mode && rule && (
+                <span className="opacity-60 line-through mr-2">{formatRuleValue(getRuleValue(mode, rule))}</span>
+              )}
+              <span className="font-medium">{formatRuleValue(value)}</span>
+            </span>
+          </li>
+        )
+      })}
+    </ul>
+  )
+}
@@ -0,0 +1,112 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { RefreshCw, Trophy } from "lucide-react"
+import { SERVER_URL } from "@/lib/server"
+
+interface LeaderboardEntry {
+  name: string
+  rating: number
+  games: number
+  wins: number
+  losses: number
+}
+
+interface LeaderboardProps {
+  // gameMode -> display name
+  gameModes: Record<string, string>
+  initialMode: string
+}
+
+export default function Leaderboard({ gameModes, initialMode }: LeaderboardProps) {
+  const [gameMode, setGameMode] = useState(initialMode)
+  const [entries, setEntries] = useState<LeaderboardEntry[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  const loadLeaderboard = (mode: string) => {
+    setLoading(true)
+    setError(null)
+    fetch(`${SERVER_URL}/leaderboard/${mode}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Could not load leaderboard")
+        return res.json()
+      })
+      .then(setEntries)
+      .catch((err) => setError(err.message))
+      .finally(() => setLoading(false))
+  }
+
+  useEffect(() => {
+    loadLeaderboard(gameMode)
+  }, [gameMode])
+
+  return (
+    <Card className="bg-black/30 border-yellow-500">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-yellow-400 flex items-center gap-2">
+          <Trophy className="w-5 h-5" />
+          Leaderboard
+        </CardTitle>
+        <Button onClick={() => loadLeaderboard(gameMode)} size="sm" className="bg-yellow-600 hover:bg-yellow-700">
+          <RefreshCw className="w-4 h-4" />
+        </Button>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex gap-2">
+          {Object.entries(gameModes).map(([key, name]) => (
+            <Button
+              key={key}
+              type="button"
+              size="sm"
+              onClick={() => setGameMode(key)}
+              className={
+                gameMode === key
+                  ? "bg-yellow-600/50 border border-yellow-400 hover:bg-yellow-600/60"
+                  : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+              }
+            >
+              {name}
+            </Button>
+          ))}
+        </div>
+
+        {error ? (
+          <p className="text-red-400 text-center py-4">{error}</p>
+        ) : loading && entries.length === 0 ? (
+          <p className="text-gray-400 text-center py-4">Loading...</p>
+        ) : entries.length === 0 ? (
+          <p className="text-gray-400 text-center py-4">No ranked games played yet</p>
+        ) : (
+          <div className="space-y-1">
+            {entries.map((entry, index) => (
+              <div
+                key={entry.name}
+                className="flex items-center justify-between p-2 bg-gray-800/50 rounded-lg border border-gray-600 text-sm"
+              >
+                <div className="flex items-center gap-3">
+                  <span className="w-6 text-right text-gray-400">{index + 1}.</span>
+                  <Link
+                    href={`/profile/${encodeURIComponent(entry.name)}`}
+                    className="text-white hover:text-yellow-300"
+                  >
+                    {entry.name}
+                  </Link>
+                </div>
+                <div className="flex items-center gap-4">
+                  <span className="text-gray-400 text-xs">
+                    {entry.wins}W / {entry.losses}L
+                  </span>
+                  <span className="text-yellow-400 font-mono font-bold">{entry.rating}</span>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
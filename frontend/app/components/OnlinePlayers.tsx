@@ -0,0 +1,161 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import type { Socket } from "socket.io-client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Swords, Users } from "lucide-react"
+
+const PRESENCE = {
+  idle: { name: "In lobby", className: "bg-green-500" },
+  inGame: { name: "In a game", className: "bg-red-500" },
+  spectating: { name: "Watching", className: "bg-purple-500" },
+}
+
+interface OnlinePlayer {
+  id: string
+  name: string
+  status: keyof typeof PRESENCE
+}
+
+interface Challenge {
+  challengeId: string
+  // The other player, whichever side of the challenge we are on
+  name: string
+  gameMode: string
+}
+
+interface OnlinePlayersProps {
+  socket: Socket | null
+  // gameMode -> display name
+  gameModes: Record<string, string>
+  // Challenges are sent for the mode picked in the lobby
+  gameMode: string
+}
+
+export default function OnlinePlayers({ socket, gameModes, gameMode }: OnlinePlayersProps) {
+  const [onlinePlayers, setOnlinePlayers] = useState<OnlinePlayer[]>([])
+  const [received, setReceived] = useState<Challenge[]>([])
+  const [sent, setSent] = useState<Challenge[]>([])
+  const [notice, setNotice] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!socket) return
+
+    const refresh = () => socket.emit("getOnlinePlayers")
+    const dropChallenge = (challengeId: string) => {
+      setReceived((prev) => prev.filter((challenge) => challenge.challengeId !== challengeId))
+      setSent((prev) => prev.filter((challenge) => challenge.challengeId !== challengeId))
+    }
+
+    socket.on("onlinePlayersList", setOnlinePlayers)
+    socket.on("onlinePlayersUpdated", refresh)
+    // The page listens for room updates too, only this handler is removed below
+    socket.on("roomsUpdated", refresh)
+
+    socket.on("challengeReceived", ({ challengeId, challenger, gameMode: mode }) => {
+      setReceived((prev) => [...prev, { challengeId, name: challenger, gameMode: mode }])
+    })
+
+    socket.on("challengeSent", ({ challengeId, opponent, gameMode: mode }) => {
+      setSent((prev) => [...prev, { challengeId, name: opponent, gameMode: mode }])
+    })
+
+    socket.on("challengeCancelled", ({ challengeId, reason }) => {
+      dropChallenge(challengeId)
+      setNotice(reason)
+      setTimeout(() => setNotice(null), 4000)
+    })
+
+    refresh()
+
+    return () => {
+      socket.off("onlinePlayersList")
+      socket.off("onlinePlayersUpdated")
+      socket.off("roomsUpdated", refresh)
+      socket.off("challengeReceived")
+      socket.off("challengeSent")
+      socket.off("challengeCancelled")
+    }
+  }, [socket])
+
+  const handleRespond = (challengeId: string, accept: boolean) => {
+    socket?.emit("respondToChallenge", { challengeId, accept })
+    setReceived((prev) => prev.filter((challenge) => challenge.challengeId !== challengeId))
+  }
+
+  const modeName = (id: string) => gameModes[id] || id
+
+  return (
+    <Card className="bg-black/30 border-green-500">
+      <CardHeader>
+        <CardTitle className="text-green-400 flex items-center gap-2">
+          <Users className="w-5 h-5" />
+          Online ({onlinePlayers.length})
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-3">
+        {received.map((challenge) => (
+          <div
+            key={challenge.challengeId}
+            className="p-3 bg-red-900/40 rounded-lg border border-red-500 flex items-center justify-between gap-2"
+          >
+            <span className="text-white text-sm">
+              <Swords className="w-4 h-4 inline mr-1" />
+              {challenge.name} challenges you to {modeName(challenge.gameMode)}
+            </span>
+            <div className="flex gap-2">
+              <Button
+                size="sm"
+                onClick={() => handleRespond(challenge.challengeId, true)}
+                className="bg-green-600 hover:bg-green-700"
+              >
+                Accept
+              </Button>
+              <Button
+                size="sm"
+                onClick={() => handleRespond(challenge.challengeId, false)}
+                className="bg-gray-600 hover:bg-gray-700"
+              >
+                Decline
+              </Button>
+            </div>
+          </div>
+        ))}
+        {sent.map((challenge) => (
+          <p key={challenge.challengeId} className="text-yellow-400 text-sm">
+            Waiting for {challenge.name} to answer your {modeName(challenge.gameMode)} challenge...
+          </p>
+        ))}
+        {notice && <p className="text-gray-300 text-sm">{notice}</p>}
+
+        <div className="space-y-1 max-h-64 overflow-y-auto">
+          {onlinePlayers.map((onlinePlayer) => (
+            <div
+              key={onlinePlayer.id}
+              className="flex items-center justify-between p-2 bg-gray-800/50 rounded-lg border border-gray-600 text-sm"
+            >
+              <span className="flex items-center gap-2 text-white">
+                <span className={`w-2 h-2 rounded-full ${PRESENCE[onlinePlayer.status].className}`} />
+                {onlinePlayer.name}
+                <span className="text-gray-400 text-xs">{PRESENCE[onlinePlayer.status].name}</span>
+              </span>
+              {onlinePlayer.id !== socket?.id && onlinePlayer.status === "idle" && (
+                <Button
+                  size="sm"
+                  onClick={() => socket?.emit("challengePlayer", { playerId: onlinePlayer.id, gameMode })}
+                  disabled={sent.some((challenge) => challenge.name === onlinePlayer.name)}
+                  title={`Challenge to ${modeName(gameMode)}`}
+                  className="bg-red-600 hover:bg-red-700 h-7"
+                >
+                  <Swords className="w-3 h-3 mr-1" />
+                  Challenge
+                </Button>
+              )}
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,303 @@
+"use client"
+
+import { useEffect, useRef, useState } from "react"
+import { Card, CardContent } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import { Club, Diamond, Eye, Heart, LogOut, Shield, Spade, Swords, Trophy, Zap } from "lucide-react"
+import type { Socket } from "socket.io-client"
+import {
+  type GameSnapshot,
+  type ParryResolution,
+  type PredictionReveal,
+  useGameSnapshot,
+} from "@/hooks/use-game-snapshot"
+
+interface SpectatorRoomProps {
+  socket: Socket | null
+  initialRoom: GameSnapshot
+  onLeave: () => void
+}
+
+// How many entries of the play-by-play are kept on screen
+const LOG_SIZE = 8
+
+function getSuitIcon(suit: string) {
+  switch (suit) {
+    case "hearts":
+      return <Heart className="w-4 h-4 text-red-500" strokeWidth={3} />
+    case "diamonds":
+      return <Diamond className="w-4 h-4 text-red-500" strokeWidth={3} />
+    case "clubs":
+      return <Club className="w-4 h-4 text-black" strokeWidth={3} />
+    case "spades":
+      return <Spade className="w-4 h-4 text-black" strokeWidth={3} />
+    default:
+      return null
+  }
+}
+
+function getRankDisplay(rank: number) {
+  switch (rank) {
+    case 1:
+      return "A"
+    case 11:
+      return "J"
+    case 12:
+      return "Q"
+    case 13:
+      return "K"
+    default:
+      return rank.toString()
+  }
+}
+
+export default function SpectatorRoom({ socket, initialRoom, onLeave }: SpectatorRoomProps) {
+  const { snapshot } = useGameSnapshot(socket, initialRoom.id, initialRoom)
+  const [log, setLog] = useState<string[]>([])
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const room = snapshot ?? initialRoom
+  const { players, currentPlayer, turn, spectators, series } = room
+  const winner = room.winner !== null ? players[room.winner]?.name : null
+  // Log entries are written by socket handlers registered once, they read the names through this ref
+  const namesRef = useRef(players.map((p) => p.name))
+  namesRef.current = players.map((p) => p.name)
+
+  useEffect(() => {
+    if (!socket) return
+
+    const addToLog = (entry: string) => setLog((prev) => [entry, ...prev].slice(0, LOG_SIZE))
+    const nameOf = (playerIndex: number) => namesRef.current[playerIndex]
+
+    socket.on("rematchAccepted", () => {
+      setLog(["Rematch started"])
+    })
+
+    const logParry = (parry: ParryResolution | null) => {
+      if (!parry) return
+      addToLog(`${nameOf(parry.playerIndex)} revealed a ${parry.handType} parry: ${parry.outcome}`)
+    }
+
+    const logPrediction = (prediction: PredictionReveal | null) => {
+      if (!prediction) return
+      addToLog(
+        `${nameOf(prediction.playerIndex)} had predicted ${prediction.predicted}: damage ×${prediction.multiplier}`,
+      )
+    }
+
+    socket.on("handPlayed", ({ playerIndex, targetIndex, handResult, parry, prediction }) => {
+      logPrediction(prediction)
+      logParry(parry)
+      addToLog(
+        `${nameOf(playerIndex)} hit ${nameOf(targetIndex)} with ${handResult.type} for ${handResult.damage} damage`,
+      )
+    })
+
+    socket.on("parrySet", ({ playerIndex, cards }) => {
+      addToLog(`${nameOf(playerIndex)} set a parry of ${cards} card(s)`)
+    })
+
+    socket.on("playerEliminated", ({ playerIndex, by }) => {
+      addToLog(by === null ? `${nameOf(playerIndex)} forfeited` : `${nameOf(by)} knocked out ${nameOf(playerIndex)}`)
+    })
+
+    socket.on("cardPassed", ({ playerIndex, targetIndex }) => {
+      addToLog(`${nameOf(playerIndex)} passed a card to ${nameOf(targetIndex)}`)
+    })
+
+    socket.on("armorBuilt", ({ playerIndex, armorGained, handResult }) => {
+      addToLog(`${nameOf(playerIndex)} built ${armorGained} armor with ${handResult.type}`)
+    })
+
+    socket.on("turnPassed", ({ playerIndex }) => {
+      addToLog(`${nameOf(playerIndex)} passed the turn`)
+    })
+
+    socket.on("turnTimedOut", ({ playerIndex }) => {
+      addToLog(`${nameOf(playerIndex)} ran out of time`)
+    })
+
+    socket.on("predictionMade", ({ playerIndex }) => {
+      addToLog(`${nameOf(playerIndex)} locked in a prediction`)
+    })
+
+    socket.on("gameEnded", ({ winner: gameWinner, handResult, parry, prediction, seriesWinner }) => {
+      logPrediction(prediction)
+      logParry(parry)
+      addToLog(handResult ? `${gameWinner.name} won with ${handResult.type}` : `${gameWinner.name} won`)
+      if (seriesWinner) addToLog(`${seriesWinner.name} won the series`)
+    })
+
+    socket.on("playerLeft", () => {
+      setNotice("A player has left the game")
+    })
+
+    socket.on("roomClosed", () => {
+      setNotice("This room has closed")
+    })
+
+    return () => {
+      socket.off("rematchAccepted")
+      socket.off("handPlayed")
+      socket.off("cardPassed")
+      socket.off("armorBuilt")
+      socket.off("turnPassed")
+      socket.off("playerEliminated")
+      socket.off("turnTimedOut")
+      socket.off("predictionMade")
+      socket.off("parrySet")
+      socket.off("gameEnded")
+      socket.off("playerLeft")
+      socket.off("roomClosed")
+    }
+  }, [socket])
+
+  const handleLeave = () => {
+    socket?.emit("stopSpectating")
+    onLeave()
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black p-2 sm:p-4">
+      <div className="max-w-4xl mx-auto space-y-3 sm:space-y-4">
+        {/* Header */}
+        <div className="flex items-center justify-between">
+          <div>
+            <h1 className="text-lg sm:text-2xl font-bold text-red-400">{room.name}</h1>
+            <div className="flex items-center gap-2 text-xs sm:text-sm text-gray-300">
+              <span>Turn {turn}</span>
+              <Badge variant="outline" className="capitalize text-gray-300 border-gray-500">
+                {room.rules.name}
+              </Badge>
+              <span className="flex items-center gap-1">
+                <Eye className="w-3 h-3" />
+                {spectators.length} watching
+              </span>
+              {series && (
+                <span className="flex items-center gap-1 text-yellow-400">
+                  <Trophy className="w-3 h-3" />
+                  Best of {series.bestOf}, game {series.game}
+                </span>
+              )}
+            </div>
+          </div>
+          <Button onClick={handleLeave} size="sm" className="bg-red-600 hover:bg-red-700">
+            <LogOut className="w-4 h-4 mr-1" />
+            Leave
+          </Button>
+        </div>
+
+        {(notice || winner) && (
+          <Card className="bg-black/50 border-yellow-500">
+            <CardContent className="p-3 text-center text-yellow-400">
+              {notice || `👑 ${winner}${room.teams ? "'s team" : ""} wins!`}
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Every seat, knocked out players stay at the table */}
+        {players.map((p, index) => (
+          <Card
+            key={p.id}
+            className={`bg-black/30 ${currentPlayer === index && !winner ? "border-yellow-500" : "border-gray-600"} ${
+              p.eliminated ? "opacity-50" : ""
+            }`}
+          >
+            <CardContent className="p-3 sm:p-4 space-y-2">
+              <div className="flex items-center justify-between text-white">
+                <span className="font-medium">
+                  {p.name}
+                  {p.team !== null && <span className="text-blue-300 text-xs ml-2">Team {p.team + 1}</span>}
+                  {currentPlayer === index && !winner && <span className="text-yellow-400 text-xs ml-2">to play</span>}
+                  {p.connected === false && !p.eliminated && (
+                    <span className="text-red-400 text-xs ml-2">disconnected</span>
+                  )}
+                  {p.eliminated && <span className="text-gray-400 text-xs ml-2">knocked out</span>}
+                  {series && (
+                    <span className="text-yellow-400 text-xs ml-2">
+                      {series.wins[index]} {series.wins[index] === 1 ? "win" : "wins"}
+                    </span>
+                  )}
+                </span>
+                <span className="text-sm">
+                  {p.health}/{p.maxHealth} HP
+                </span>
+              </div>
+              <div className="w-full bg-gray-700 rounded-full h-2">
+                <div
+                  className="bg-red-500 h-2 rounded-full transition-all duration-500"
+                  style={{ width: `${p.maxHealth ? (p.health / p.maxHealth) * 100 : 0}%` }}
+                ></div>
+              </div>
+              <div className="flex flex-wrap items-center gap-3 text-xs text-gray-300">
+                {room.rules.armor && (
+                  <span className="flex items-center gap-1 text-blue-400">
+                    <Shield className="w-3 h-3" />
+                    {p.armor} armor
+                  </span>
+                )}
+                {p.predictionCommitment && (
+                  <span className="flex items-center gap-1 text-purple-400">
+                    <Zap className="w-3 h-3" />
+                    {p.prediction ? `Predicting ${p.prediction}` : "Prediction locked in"}
+                  </span>
+                )}
+                {p.parrySize > 0 && (
+                  <span className="flex items-center gap-1 text-purple-300">
+                    <Swords className="w-3 h-3" />
+                    Parry ({p.parrySize})
+                  </span>
+                )}
+                <span>
+                  Discard tokens {p.discardTokens}/{p.maxDiscardTokens}
+                  {p.discardRegenIn !== null && ` (+1 in ${p.discardRegenIn})`}
+                </span>
+              </div>
+              {p.hand ? (
+                <div className="flex gap-1 flex-wrap">
+                  {p.hand.map((card) => (
+                    <Card
+                      key={card.id}
+                      className={`min-w-[44px] py-1 ${
+                        card.markedForDiscard
+                          ? "bg-orange-400 border-orange-300"
+                          : card.selected
+                            ? "bg-yellow-600 border-yellow-400"
+                            : "bg-white"
+                      }`}
+                    >
+                      <CardContent className="p-1 text-center">
+                        <div className="text-base font-bold">{getRankDisplay(card.rank)}</div>
+                        <div className="flex justify-center">{getSuitIcon(card.suit)}</div>
+                      </CardContent>
+                    </Card>
+                  ))}
+                </div>
+              ) : (
+                <p className="text-xs text-gray-400">{p.handSize} cards in hand</p>
+              )}
+            </CardContent>
+          </Card>
+        ))}
+
+        {/* Play-by-play */}
+        <Card className="bg-black/30 border-purple-500">
+          <CardContent className="p-3 sm:p-4">
+            {log.length === 0 ? (
+              <p className="text-gray-400 text-sm text-center">Waiting for the next move...</p>
+            ) : (
+              <ul className="space-y-1 text-sm">
+                {log.map((entry, index) => (
+                  <li key={index} className={index === 0 ? "text-white" : "text-gray-400"}>
+                    {entry}
+                  </li>
+                ))}
+              </ul>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
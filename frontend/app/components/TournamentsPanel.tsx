@@ -0,0 +1,265 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import type { Socket } from "socket.io-client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { Network, Play, Plus, RefreshCw, Swords, Trophy } from "lucide-react"
+
+export const TOURNAMENT_FORMATS = {
+  singleElimination: { name: "Single Elimination", description: "Lose once and you're out" },
+  swiss: { name: "Swiss", description: "Everyone plays every round, most wins takes it" },
+}
+
+interface TournamentSummary {
+  id: string
+  name: string
+  format: keyof typeof TOURNAMENT_FORMATS
+  gameMode: string
+  bestOf: number
+  organizer: string
+  status: "registering" | "running" | "finished"
+  entrants: string[]
+  round: number
+  totalRounds: number | null
+  winner: string | null
+  pendingMatches: { id: string; entrants: [string, string | null] }[]
+  // Whether this session organizes the tournament, the name alone doesn't tell
+  organizing: boolean
+}
+
+interface TournamentsPanelProps {
+  socket: Socket | null
+  playerName: string
+  // gameMode -> display name
+  gameModes: Record<string, string>
+  gameMode: string
+}
+
+const sameName = (a: string | null, b: string) => a !== null && a.toLowerCase() === b.toLowerCase()
+
+export default function TournamentsPanel({ socket, playerName, gameModes, gameMode }: TournamentsPanelProps) {
+  const [tournaments, setTournaments] = useState<TournamentSummary[]>([])
+  const [showCreate, setShowCreate] = useState(false)
+  const [name, setName] = useState("")
+  const [format, setFormat] = useState<keyof typeof TOURNAMENT_FORMATS>("singleElimination")
+  const [bestOf, setBestOf] = useState(1)
+
+  useEffect(() => {
+    if (!socket) return
+
+    socket.on("tournamentsList", setTournaments)
+    socket.on("tournamentsUpdated", () => {
+      socket.emit("getTournaments")
+    })
+    socket.on("tournamentCreated", () => {
+      setShowCreate(false)
+      setName("")
+    })
+    socket.emit("getTournaments")
+
+    return () => {
+      socket.off("tournamentsList")
+      socket.off("tournamentsUpdated")
+      socket.off("tournamentCreated")
+    }
+  }, [socket])
+
+  const handleCreate = () => {
+    if (socket && name.trim()) {
+      socket.emit("createTournament", { name: name.trim(), format, gameMode, bestOf })
+    }
+  }
+
+  return (
+    <Card className="bg-black/30 border-purple-500">
+      <CardHeader className="flex flex-row items-center justify-between">
+        <CardTitle className="text-purple-300 flex items-center gap-2">
+          <Network className="w-5 h-5" />
+          Tournaments
+        </CardTitle>
+        <div className="flex gap-2">
+          <Button onClick={() => setShowCreate(!showCreate)} size="sm" className="bg-purple-600 hover:bg-purple-700">
+            <Plus className="w-4 h-4" />
+          </Button>
+          <Button
+            onClick={() => socket?.emit("getTournaments")}
+            size="sm"
+            className="bg-purple-600 hover:bg-purple-700"
+          >
+            <RefreshCw className="w-4 h-4" />
+          </Button>
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        {showCreate && (
+          <div className="space-y-3 p-3 bg-gray-800/50 rounded-lg border border-gray-600">
+            <Input
+              placeholder="Tournament name"
+              value={name}
+              maxLength={40}
+              onChange={(e) => setName(e.target.value)}
+              onKeyDown={(e) => e.key === "Enter" && handleCreate()}
+            />
+            <div className="grid grid-cols-2 gap-2">
+              {Object.entries(TOURNAMENT_FORMATS).map(([key, option]) => (
+                <Button
+                  key={key}
+                  type="button"
+                  onClick={() => setFormat(key as keyof typeof TOURNAMENT_FORMATS)}
+                  className={`h-auto flex flex-col items-start p-2 ${
+                    format === key
+                      ? "bg-purple-600/50 border border-purple-400 hover:bg-purple-600/60"
+                      : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+                  }`}
+                >
+                  <span className="text-sm">{option.name}</span>
+                  <span className="text-xs text-gray-300 whitespace-normal text-left">{option.description}</span>
+                </Button>
+              ))}
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+              {[1, 3].map((length) => (
+                <Button
+                  key={length}
+                  type="button"
+                  onClick={() => setBestOf(length)}
+                  className={`text-xs ${
+                    bestOf === length
+                      ? "bg-purple-600/50 border border-purple-400 hover:bg-purple-600/60"
+                      : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+                  }`}
+                >
+                  {length === 1 ? "Single game matches" : `Best of ${length} matches`}
+                </Button>
+              ))}
+            </div>
+            <Button onClick={handleCreate} disabled={!name.trim()} className="w-full bg-purple-600 hover:bg-purple-700">
+              Create {gameModes[gameMode] || gameMode} Tournament
+            </Button>
+          </div>
+        )}
+
+        {tournaments.length === 0 ? (
+          <p className="text-gray-400 text-center py-4">No tournaments yet</p>
+        ) : (
+          <div className="space-y-2">
+            {tournaments.map((tournament) => {
+              const registered = tournament.entrants.some((entrant) => sameName(entrant, playerName))
+              const isOrganizer = tournament.organizing
+              const myMatch = tournament.pendingMatches.find((match) =>
+                match.entrants.some((entrant) => sameName(entrant, playerName)),
+              )
+
+              return (
+                <div key={tournament.id} className="p-3 bg-gray-800/50 rounded-lg border border-gray-600 space-y-2">
+                  <div className="flex items-center justify-between gap-2">
+                    <div className="min-w-0">
+                      <Link
+                        href={`/tournaments/${tournament.id}`}
+                        className="font-medium text-white hover:text-purple-300 truncate block"
+                      >
+                        {tournament.name}
+                      </Link>
+                      <div className="flex flex-wrap items-center gap-2 text-xs text-gray-400">
+                        <Badge variant="outline" className="text-gray-300 border-gray-500">
+                          {TOURNAMENT_FORMATS[tournament.format].name}
+                        </Badge>
+                        <span>{gameModes[tournament.gameMode] || tournament.gameMode}</span>
+                        {tournament.bestOf > 1 && <span>Bo{tournament.bestOf}</span>}
+                        <span>{tournament.entrants.length} players</span>
+                      </div>
+                    </div>
+                    <span className="text-xs text-gray-300 whitespace-nowrap">
+                      {tournament.status === "registering"
+                        ? "Registering"
+                        : tournament.status === "running"
+                          ? `Round ${tournament.round} of ${tournament.totalRounds}`
+                          : `🏆 ${tournament.winner}`}
+                    </span>
+                  </div>
+
+                  <div className="flex flex-wrap gap-2">
+                    {tournament.status === "registering" &&
+                      (registered ? (
+                        <Button
+                          size="sm"
+                          onClick={() => socket?.emit("leaveTournament", tournament.id)}
+                          className="bg-gray-600 hover:bg-gray-700"
+                        >
+                          Leave
+                        </Button>
+                      ) : (
+                        <Button
+                          size="sm"
+                          onClick={() => socket?.emit("joinTournament", tournament.id)}
+                          className="bg-purple-600 hover:bg-purple-700"
+                        >
+                          Register
+                        </Button>
+                      ))}
+                    {tournament.status === "registering" && isOrganizer && (
+                      <Button
+                        size="sm"
+                        onClick={() => socket?.emit("startTournament", tournament.id)}
+                        disabled={tournament.entrants.length < 2}
+                        className="bg-green-600 hover:bg-green-700"
+                      >
+                        <Play className="w-4 h-4 mr-1" />
+                        Start
+                      </Button>
+                    )}
+                    {myMatch && (
+                      <Button
+                        size="sm"
+                        onClick={() => socket?.emit("joinTournamentMatch", tournament.id)}
+                        className="bg-red-600 hover:bg-red-700"
+                      >
+                        <Swords className="w-4 h-4 mr-1" />
+                        Play your match
+                      </Button>
+                    )}
+                  </div>
+
+                  {tournament.status === "running" && isOrganizer && tournament.pendingMatches.length > 0 && (
+                    <div className="space-y-1 text-xs">
+                      <p className="text-gray-400">Someone didn't show up? Award their match to the other player.</p>
+                      {tournament.pendingMatches.map((match) => (
+                        <div key={match.id} className="flex flex-wrap items-center gap-2">
+                          <span className="text-gray-300">{match.entrants.join(" vs ")}</span>
+                          {match.entrants.map(
+                            (entrant) =>
+                              entrant && (
+                                <Button
+                                  key={entrant}
+                                  size="sm"
+                                  onClick={() =>
+                                    socket?.emit("awardTournamentMatch", {
+                                      tournamentId: tournament.id,
+                                      matchId: match.id,
+                                      winner: entrant,
+                                    })
+                                  }
+                                  className="bg-gray-600 hover:bg-gray-700 h-7"
+                                >
+                                  <Trophy className="w-3 h-3 mr-1" />
+                                  {entrant} wins
+                                </Button>
+                              ),
+                          )}
+                        </div>
+                      ))}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
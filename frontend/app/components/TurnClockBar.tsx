@@ -0,0 +1,70 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { Timer } from "lucide-react"
+
+export interface TurnClockState {
+  playerIndex: number
+  turnMs: number
+  turnRemainingMs: number
+  timeBanks: number[]
+  // Local time the state arrived, the countdown runs from here
+  receivedAt: number
+}
+
+interface TurnClockBarProps {
+  clock: TurnClockState
+  myPlayerIndex: number
+}
+
+function formatClock(ms: number) {
+  const totalSeconds = Math.ceil(ms / 1000)
+  const minutes = Math.floor(totalSeconds / 60)
+  const seconds = totalSeconds % 60
+  return `${minutes}:${seconds.toString().padStart(2, "0")}`
+}
+
+export default function TurnClockBar({ clock, myPlayerIndex }: TurnClockBarProps) {
+  const [now, setNow] = useState(() => Date.now())
+
+  useEffect(() => {
+    const interval = setInterval(() => setNow(Date.now()), 250)
+    return () => clearInterval(interval)
+  }, [])
+
+  const elapsed = Math.max(0, now - clock.receivedAt)
+  const turnLeft = Math.max(0, clock.turnRemainingMs - elapsed)
+  const startingBank = clock.timeBanks[clock.playerIndex] || 0
+  const bankLeft = Math.max(0, startingBank - Math.max(0, elapsed - clock.turnRemainingMs))
+  const usingBank = turnLeft === 0 && startingBank > 0
+
+  const percent = usingBank ? (bankLeft / startingBank) * 100 : clock.turnMs > 0 ? (turnLeft / clock.turnMs) * 100 : 0
+  const barColor = percent > 50 ? "bg-green-500" : percent > 25 ? "bg-yellow-500" : "bg-red-500"
+  const isMyClock = clock.playerIndex === myPlayerIndex
+  const hasBanks = clock.timeBanks.some((bank) => bank > 0)
+
+  return (
+    <div className="mb-3 sm:mb-4 bg-black/30 rounded-lg p-2 sm:p-3">
+      <div className="flex items-center justify-between text-xs sm:text-sm mb-1">
+        <span className="text-white flex items-center gap-1">
+          <Timer className="w-3 h-3 sm:w-4 sm:h-4" />
+          {isMyClock ? "Your time" : "Opponent's time"}
+          {usingBank && <span className="text-yellow-400 ml-1">(bank)</span>}
+        </span>
+        <span className="text-white font-mono">{formatClock(usingBank ? bankLeft : turnLeft)}</span>
+      </div>
+      <div className="w-full bg-gray-700 rounded-full h-1 sm:h-2">
+        <div
+          className={`${barColor} h-1 sm:h-2 rounded-full transition-all duration-200`}
+          style={{ width: `${percent}%` }}
+        ></div>
+      </div>
+      {hasBanks && (
+        <div className="flex justify-between text-xs text-gray-400 mt-1">
+          <span>Your bank: {formatClock(isMyClock ? bankLeft : clock.timeBanks[myPlayerIndex] || 0)}</span>
+          <span>Their bank: {formatClock(isMyClock ? clock.timeBanks[1 - myPlayerIndex] || 0 : bankLeft)}</span>
+        </div>
+      )}
+    </div>
+  )
+}
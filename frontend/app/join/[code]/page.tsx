@@ -0,0 +1,205 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams, useRouter } from "next/navigation"
+import { io, type Socket } from "socket.io-client"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Lock, Ticket } from "lucide-react"
+import { SERVER_URL, SESSION_STORAGE_KEY } from "@/lib/server"
+import type { RuleOverrides } from "@/lib/game-modes"
+import { useGameModes } from "@/hooks/use-game-modes"
+import GameRoom from "../../components/GameRoom"
+import HouseRulesList from "../../components/HouseRulesList"
+
+// Mirrors the server's inviteInfo
+interface InviteInfo {
+  code: string
+  roomId: string
+  name: string
+  gameMode: string
+  players: string[]
+  maxPlayers: number
+  gameState: "waiting" | "playing" | "ended"
+  hasPassword: boolean
+  ruleOverrides: RuleOverrides
+}
+
+// Invite links land here and go straight into the room once the player is seated
+export default function JoinPage() {
+  const { code } = useParams<{ code: string }>()
+  const router = useRouter()
+  const { gameModes, ruleDefinitions } = useGameModes()
+  const [socket, setSocket] = useState<Socket | null>(null)
+  const [player, setPlayer] = useState<{ id: string; name: string } | null>(null)
+  const [playerName, setPlayerName] = useState("")
+  const [invite, setInvite] = useState<InviteInfo | null>(null)
+  const [password, setPassword] = useState("")
+  const [error, setError] = useState<string | null>(null)
+  const [roomId, setRoomId] = useState<string | null>(null)
+  const [gameMode, setGameMode] = useState("classic")
+
+  useEffect(() => {
+    const newSocket = io(SERVER_URL)
+    setSocket(newSocket)
+
+    newSocket.on("connect", () => {
+      const sessionToken = localStorage.getItem(SESSION_STORAGE_KEY)
+      if (sessionToken) {
+        newSocket.emit("resumeSession", sessionToken)
+      }
+    })
+
+    newSocket.on("playerSet", ({ id, name, sessionToken }) => {
+      setPlayer({ id, name })
+      if (sessionToken) {
+        localStorage.setItem(SESSION_STORAGE_KEY, sessionToken)
+      }
+      newSocket.emit("getInvite", code)
+    })
+
+    // Already seated in a game, carry on with it
+    newSocket.on("sessionResumed", ({ roomId, gameMode }) => {
+      setRoomId(roomId)
+      setGameMode(gameMode)
+    })
+
+    newSocket.on("sessionExpired", () => {
+      localStorage.removeItem(SESSION_STORAGE_KEY)
+    })
+
+    newSocket.on("inviteInfo", (info: InviteInfo) => {
+      setInvite(info)
+      setGameMode(info.gameMode)
+      setError(null)
+    })
+
+    newSocket.on("playerJoined", ({ player: joined, room }) => {
+      if (joined.id === newSocket.id) {
+        setRoomId(room.id)
+      }
+    })
+
+    newSocket.on("error", (message: string) => {
+      setError(message)
+    })
+
+    return () => {
+      newSocket.close()
+    }
+  }, [code])
+
+  const handleSetPlayerName = () => {
+    if (socket && playerName.trim()) {
+      socket.emit("setPlayerName", playerName.trim())
+    }
+  }
+
+  const handleJoin = () => {
+    if (socket && invite) {
+      setError(null)
+      // The rules are listed on this card, so joining accepts them
+      socket.emit("joinByInvite", { code: invite.code, password, acceptedRules: true })
+    }
+  }
+
+  const handleLeave = () => {
+    socket?.emit("leaveRoom")
+    router.push("/")
+  }
+
+  if (roomId && player) {
+    return <GameRoom socket={socket} roomId={roomId} player={player} onLeave={handleLeave} gameMode={gameMode} />
+  }
+
+  const mode = gameModes.find((m) => m.id === invite?.gameMode)
+  const roomFull = invite ? invite.players.length >= invite.maxPlayers : false
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black p-4">
+      <div className="max-w-md mx-auto space-y-4">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+          <ArrowLeft className="w-4 h-4" />
+          Back to lobby
+        </Link>
+
+        <Card className="bg-black/50 border-red-500">
+          <CardHeader>
+            <CardTitle className="text-red-400 flex items-center gap-2">
+              <Ticket className="w-5 h-5" />
+              {invite ? invite.name : `Invite ${code}`}
+            </CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-4 text-white">
+            {!player ? (
+              <>
+                <p className="text-gray-300 text-sm">Enter your name to join this room.</p>
+                <Input
+                  placeholder="Your name"
+                  value={playerName}
+                  maxLength={20}
+                  onChange={(e) => setPlayerName(e.target.value)}
+                  onKeyDown={(e) => e.key === "Enter" && handleSetPlayerName()}
+                  className="bg-gray-800 border-gray-600 text-white"
+                />
+                <Button
+                  onClick={handleSetPlayerName}
+                  disabled={!playerName.trim()}
+                  className="w-full bg-red-600 hover:bg-red-700"
+                >
+                  Continue
+                </Button>
+              </>
+            ) : !invite ? (
+              <p className="text-gray-400 text-center">{error || "Looking up invite..."}</p>
+            ) : (
+              <>
+                <div className="flex items-center gap-2">
+                  <Badge variant="outline" className="text-xs text-gray-300">
+                    {mode?.name || invite.gameMode}
+                  </Badge>
+                  {invite.hasPassword && <Lock className="w-3 h-3 text-gray-400" />}
+                  <span className="text-gray-400 text-sm">
+                    {invite.players.length}/{invite.maxPlayers} players
+                    {invite.players.length > 0 && ` · ${invite.players.join(", ")}`}
+                  </span>
+                </div>
+                {Object.keys(invite.ruleOverrides).length > 0 && (
+                  <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-600">
+                    <p className="text-yellow-400 text-sm mb-2">House rules</p>
+                    <HouseRulesList
+                      mode={mode}
+                      ruleOverrides={invite.ruleOverrides}
+                      ruleDefinitions={ruleDefinitions}
+                    />
+                  </div>
+                )}
+                {invite.hasPassword && (
+                  <Input
+                    type="password"
+                    placeholder="Room password"
+                    value={password}
+                    onChange={(e) => setPassword(e.target.value)}
+                    onKeyDown={(e) => e.key === "Enter" && handleJoin()}
+                    className="bg-gray-800 border-gray-600 text-white"
+                  />
+                )}
+                {error && <p className="text-red-400 text-sm">{error}</p>}
+                <Button
+                  onClick={handleJoin}
+                  disabled={roomFull || invite.gameState !== "waiting"}
+                  className="w-full bg-green-600 hover:bg-green-700"
+                >
+                  {roomFull ? "Room is full" : Object.keys(invite.ruleOverrides).length > 0 ? "Accept & Join" : "Join"}
+                </Button>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  )
+}
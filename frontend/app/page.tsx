@@ -7,9 +7,31 @@ import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { Input } from "@/components/ui/input"
 import { Badge } from "@/components/ui/badge"
-import { Crown, Users, Plus, RefreshCw, Gamepad2, Shield, Recycle } from "lucide-react"
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog"
+import { Crown, Users, Plus, RefreshCw, Gamepad2, Timer, Bot, History, Swords, Eye, Lock, Ticket } from "lucide-react"
 import { io, type Socket } from "socket.io-client"
+import Link from "next/link"
+import { useRouter } from "next/navigation"
+import { SERVER_URL, SESSION_STORAGE_KEY } from "@/lib/server"
+import { type RuleOverrides, describeRefills, formatRuleValue, getGameModeIcon, getRuleValue } from "@/lib/game-modes"
+import type { GameSnapshot } from "@/hooks/use-game-snapshot"
+import { useGameModes } from "@/hooks/use-game-modes"
+import ChatPanel from "./components/ChatPanel"
 import GameRoom from "./components/GameRoom"
+import HouseRulesList from "./components/HouseRulesList"
+import Leaderboard from "./components/Leaderboard"
+import OnlinePlayers from "./components/OnlinePlayers"
+import SpectatorRoom from "./components/SpectatorRoom"
+import TournamentsPanel from "./components/TournamentsPanel"
 
 interface Room {
   id: string
@@ -17,18 +39,66 @@ interface Room {
   players: number
   maxPlayers: number
   gameMode: string
+  turnClock: string
+  ruleOverrides: RuleOverrides
+  hasPassword: boolean
+  teams: boolean
+  bestOf: number
 }
 
-const GAME_MODES = {
-  classic: {
-    name: "Classic",
-    icon: Gamepad2,
-    description: "Only replace played cards - 3 discards per game, max 5 cards per discard",
-  },
-  tactical: { name: "Tactical", icon: Shield, description: "Prediction system, armor building, and tactical combat" },
-  recycling: { name: "Redraw", icon: Recycle, description: " Discards replenish after 2 turns 500 HP" },
+const TURN_CLOCKS = {
+  off: { name: "No Clock", description: "Take as long as you like" },
+  quick: { name: "Quick", description: "30s per turn" },
+  standard: { name: "Standard", description: "60s per turn" },
+  bank: { name: "Bank", description: "10s per turn + 3 min time bank" },
 }
 
+const BOT_DIFFICULTIES = {
+  easy: { name: "Easy", description: "Plays whatever it finds" },
+  medium: { name: "Medium", description: "Goes for strong hands" },
+  hard: { name: "Hard", description: "Always hits for maximum damage" },
+}
+
+// How a room is seated, more than two players is a free-for-all unless they play in teams
+const TABLE_FORMATS = {
+  duel: { name: "Duel", maxPlayers: 2, teams: false },
+  ffa3: { name: "3-player FFA", maxPlayers: 3, teams: false },
+  ffa4: { name: "4-player FFA", maxPlayers: 4, teams: false },
+  teams: { name: "2v2 Teams", maxPlayers: 4, teams: true },
+}
+
+// Series lengths a room can be created with, best of 1 is a single game
+const SERIES_LENGTHS = [1, 3, 5, 7]
+
+const TIMEOUT_ACTIONS = {
+  playHighest: "Play highest card",
+  pass: "Pass the turn",
+}
+
+// A game in progress that can be watched
+interface LiveRoom {
+  id: string
+  name: string
+  gameMode: string
+  players: string[]
+  turn: number
+  spectators: number
+  openHands: boolean
+  ranked: boolean
+}
+
+// Ranked queue progress as reported by the server
+interface RankedQueueState {
+  gameMode: string
+  rating: number
+  waitedMs: number
+  searchRange: number | null
+}
+
+// Debug builds can pick the deck seed of a new room to reproduce a game,
+// the server has to run with ALLOW_CUSTOM_SEEDS=true as well
+const DEBUG_TOOLS = process.env.NEXT_PUBLIC_DEBUG_TOOLS === "true"
+
 export default function Home() {
   const [socket, setSocket] = useState<Socket | null>(null)
   const [playerName, setPlayerName] = useState("")
@@ -36,18 +106,62 @@ export default function Home() {
   const [rooms, setRooms] = useState<Room[]>([])
   const [newRoomName, setNewRoomName] = useState("")
   const [selectedGameMode, setSelectedGameMode] = useState("classic")
+  const [selectedTurnClock, setSelectedTurnClock] = useState("off")
+  const [selectedTimeoutAction, setSelectedTimeoutAction] = useState("playHighest")
+  const [selectedBotDifficulty, setSelectedBotDifficulty] = useState("medium")
+  const [selectedTableFormat, setSelectedTableFormat] = useState<keyof typeof TABLE_FORMATS>("duel")
+  const [selectedBestOf, setSelectedBestOf] = useState(1)
   const [currentRoom, setCurrentRoom] = useState<string | null>(null)
   const [player, setPlayer] = useState<{ id: string; name: string } | null>(null)
   const [showCreateRoom, setShowCreateRoom] = useState(false)
   const [currentRoomGameMode, setCurrentRoomGameMode] = useState("classic")
+  const [rankedQueue, setRankedQueue] = useState<RankedQueueState | null>(null)
+  const [debugSeed, setDebugSeed] = useState("")
+  const [openHands, setOpenHands] = useState(false)
+  const [liveRooms, setLiveRooms] = useState<LiveRoom[]>([])
+  const [spectatedRoom, setSpectatedRoom] = useState<GameSnapshot | null>(null)
+  const { gameModes, ruleDefinitions } = useGameModes()
+  const [houseRules, setHouseRules] = useState<RuleOverrides>({})
+  const [isPrivate, setIsPrivate] = useState(false)
+  const [roomPassword, setRoomPassword] = useState("")
+  // Room with custom rules or a password the player is asked about before joining
+  const [pendingJoin, setPendingJoin] = useState<Room | null>(null)
+  const [joinPassword, setJoinPassword] = useState("")
+  const [inviteCode, setInviteCode] = useState("")
+  const router = useRouter()
+
+  const selectedMode = gameModes.find((mode) => mode.id === selectedGameMode)
+  const gameModeName = (id: string) => gameModes.find((mode) => mode.id === id)?.name || id
+  // Rules the selected mode has, armor cap only shows up for modes with armor
+  const editableRules = selectedMode
+    ? Object.entries(ruleDefinitions).filter(([, rule]) => getRuleValue(selectedMode, rule) !== undefined)
+    : []
+  // Only the rules that differ from the mode are sent to the server
+  const customRules = Object.fromEntries(
+    editableRules
+      .filter(([key, rule]) => key in houseRules && houseRules[key] !== getRuleValue(selectedMode!, rule))
+      .map(([key]) => [key, houseRules[key]]),
+  )
+
+  const setHouseRule = (key: string, value: number | boolean | null) => {
+    setHouseRules((prev) => {
+      const { [key]: _, ...rest } = prev
+      return value === null ? rest : { ...rest, [key]: value }
+    })
+  }
 
   useEffect(() => {
-    const newSocket = io("https://demhan-server.onrender.com")
+    const newSocket = io(SERVER_URL)
     setSocket(newSocket)
 
     newSocket.on("connect", () => {
       setIsConnected(true)
       console.log("Connected to server")
+
+      const sessionToken = localStorage.getItem(SESSION_STORAGE_KEY)
+      if (sessionToken) {
+        newSocket.emit("resumeSession", sessionToken)
+      }
     })
 
     newSocket.on("disconnect", () => {
@@ -55,17 +169,42 @@ export default function Home() {
       console.log("Disconnected from server")
     })
 
-    newSocket.on("playerSet", ({ id, name }) => {
+    newSocket.on("playerSet", ({ id, name, sessionToken }) => {
       setPlayer({ id, name })
+      if (sessionToken) {
+        localStorage.setItem(SESSION_STORAGE_KEY, sessionToken)
+      }
       console.log("Player set:", { id, name })
     })
 
+    newSocket.on("sessionResumed", ({ roomId, gameMode }) => {
+      setCurrentRoom(roomId)
+      setCurrentRoomGameMode(gameMode)
+      console.log("Resumed session in room:", roomId)
+    })
+
+    newSocket.on("sessionExpired", () => {
+      localStorage.removeItem(SESSION_STORAGE_KEY)
+      setPlayer(null)
+      setCurrentRoom(null)
+      console.log("Stored session expired")
+    })
+
     newSocket.on("roomsList", (roomsList: Room[]) => {
       setRooms(roomsList)
     })
 
+    newSocket.on("liveRoomsList", (liveRoomsList: LiveRoom[]) => {
+      setLiveRooms(liveRoomsList)
+    })
+
     newSocket.on("roomsUpdated", () => {
       newSocket.emit("getRooms")
+      newSocket.emit("getLiveRooms")
+    })
+
+    newSocket.on("spectatingStarted", ({ room }) => {
+      setSpectatedRoom(room)
     })
 
     newSocket.on("roomCreated", ({ roomId, room }) => {
@@ -73,16 +212,51 @@ export default function Home() {
       setCurrentRoomGameMode(room.gameMode || selectedGameMode)
       setShowCreateRoom(false)
       setNewRoomName("")
+      setRoomPassword("")
       console.log("Room created with mode:", room.gameMode)
     })
 
-    newSocket.on("playerJoined", ({ room }) => {
+    newSocket.on("playerJoined", ({ player: joined, room }) => {
+      if (joined.id === newSocket.id) {
+        setCurrentRoom(room.id)
+      }
       if (room.gameMode) {
         setCurrentRoomGameMode(room.gameMode)
         console.log("Updated room game mode:", room.gameMode)
       }
     })
 
+    newSocket.on("rankedQueueJoined", ({ gameMode, rating }) => {
+      setRankedQueue({ gameMode, rating, waitedMs: 0, searchRange: null })
+    })
+
+    newSocket.on("rankedQueueStatus", (status: RankedQueueState) => {
+      setRankedQueue(status)
+    })
+
+    newSocket.on("rankedQueueLeft", () => {
+      setRankedQueue(null)
+    })
+
+    newSocket.on("rankedMatchFound", ({ roomId, gameMode, opponent }) => {
+      setRankedQueue(null)
+      setCurrentRoom(roomId)
+      setCurrentRoomGameMode(gameMode)
+      console.log(`Ranked match found against ${opponent.name} (${opponent.rating})`)
+    })
+
+    newSocket.on("challengeAccepted", ({ roomId, gameMode }) => {
+      setCurrentRoom(roomId)
+      setCurrentRoomGameMode(gameMode)
+      console.log("Challenge accepted, playing in room:", roomId)
+    })
+
+    newSocket.on("tournamentMatchReady", ({ roomId, gameMode }) => {
+      setCurrentRoom(roomId)
+      setCurrentRoomGameMode(gameMode)
+      console.log("Tournament match ready in room:", roomId)
+    })
+
     newSocket.on("error", (error) => {
       alert(`Error: ${error}`)
     })
@@ -98,21 +272,88 @@ export default function Home() {
     }
   }
 
+  const tableFormat = TABLE_FORMATS[selectedTableFormat]
+
   const handleCreateRoom = () => {
     if (socket && newRoomName.trim()) {
-      socket.emit("createRoom", { roomName: newRoomName.trim(), gameMode: selectedGameMode })
+      socket.emit("createRoom", {
+        roomName: newRoomName.trim(),
+        gameMode: selectedGameMode,
+        turnClock: selectedTurnClock,
+        timeoutAction: selectedTimeoutAction,
+        openHands,
+        rules: customRules,
+        maxPlayers: tableFormat.maxPlayers,
+        teams: tableFormat.teams,
+        bestOf: selectedBestOf,
+        private: isPrivate,
+        password: roomPassword,
+        ...(DEBUG_TOOLS && debugSeed.trim() ? { seed: debugSeed.trim() } : {}),
+      })
+    }
+  }
+
+  const handlePlayBot = () => {
+    if (socket && player) {
+      const difficulty = BOT_DIFFICULTIES[selectedBotDifficulty as keyof typeof BOT_DIFFICULTIES]
+      socket.emit("createRoom", {
+        roomName: `${player.name} vs ${difficulty.name} Bot`,
+        gameMode: selectedGameMode,
+        turnClock: selectedTurnClock,
+        timeoutAction: selectedTimeoutAction,
+        botDifficulty: selectedBotDifficulty,
+        rules: customRules,
+        maxPlayers: tableFormat.maxPlayers,
+        teams: tableFormat.teams,
+        bestOf: selectedBestOf,
+      })
+    }
+  }
+
+  const handleFindRankedMatch = () => {
+    if (socket) {
+      socket.emit("joinRankedQueue", { gameMode: selectedGameMode })
+    }
+  }
+
+  const handleCancelRankedMatch = () => {
+    if (socket) {
+      socket.emit("leaveRankedQueue")
+    }
+  }
+
+  const handleWatchRoom = (roomId: string) => {
+    if (socket) {
+      socket.emit("spectateRoom", roomId)
     }
   }
 
-  const handleJoinRoom = (roomId: string) => {
+  const handleStopWatching = () => {
+    setSpectatedRoom(null)
+    socket?.emit("getLiveRooms")
+  }
+
+  const handleJoinRoom = (roomId: string, confirmed = false) => {
     if (socket) {
       const room = rooms.find((r) => r.id === roomId)
+      // Players see a room's custom rules, and enter its password, before they take a seat
+      if (room && (Object.keys(room.ruleOverrides).length > 0 || room.hasPassword) && !confirmed) {
+        setJoinPassword("")
+        setPendingJoin(room)
+        return
+      }
       if (room) {
         setCurrentRoomGameMode(room.gameMode)
         console.log("Joining room with mode:", room.gameMode)
       }
-      socket.emit("joinRoom", roomId)
-      setCurrentRoom(roomId)
+      // The room opens once the server seats us, a wrong password only shows an error
+      socket.emit("joinRoom", roomId, { acceptedRules: confirmed, password: joinPassword })
+    }
+  }
+
+  const handleJoinByCode = () => {
+    if (inviteCode.trim()) {
+      router.push(`/join/${encodeURIComponent(inviteCode.trim().toUpperCase())}`)
     }
   }
 
@@ -127,15 +368,60 @@ export default function Home() {
   const refreshRooms = () => {
     if (socket) {
       socket.emit("getRooms")
+      socket.emit("getLiveRooms")
     }
   }
 
   useEffect(() => {
     if (socket && player) {
       socket.emit("getRooms")
+      socket.emit("getLiveRooms")
     }
   }, [socket, player])
 
+  // Shared by the bot and the create room panels
+  const tableFormatPicker = (
+    <div className="grid grid-cols-2 gap-2">
+      {Object.entries(TABLE_FORMATS).map(([key, format]) => (
+        <Button
+          key={key}
+          type="button"
+          onClick={() => setSelectedTableFormat(key as keyof typeof TABLE_FORMATS)}
+          className={`text-xs ${
+            selectedTableFormat === key
+              ? "bg-purple-600/50 border border-purple-400 hover:bg-purple-600/60"
+              : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+          }`}
+        >
+          {format.name}
+        </Button>
+      ))}
+    </div>
+  )
+
+  const seriesPicker = (
+    <div className="grid grid-cols-4 gap-2">
+      {SERIES_LENGTHS.map((bestOf) => (
+        <Button
+          key={bestOf}
+          type="button"
+          onClick={() => setSelectedBestOf(bestOf)}
+          className={`text-xs ${
+            selectedBestOf === bestOf
+              ? "bg-purple-600/50 border border-purple-400 hover:bg-purple-600/60"
+              : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+          }`}
+        >
+          {bestOf === 1 ? "Single" : `Bo${bestOf}`}
+        </Button>
+      ))}
+    </div>
+  )
+
+  if (spectatedRoom && player) {
+    return <SpectatorRoom socket={socket} initialRoom={spectatedRoom} onLeave={handleStopWatching} />
+  }
+
   if (currentRoom && player) {
     return (
       <GameRoom
@@ -174,6 +460,7 @@ export default function Home() {
               <Input
                 placeholder="Your name"
                 value={playerName}
+                maxLength={20}
                 onChange={(e) => setPlayerName(e.target.value)}
                 onKeyPress={(e) => e.key === "Enter" && handleSetPlayerName()}
                 className="bg-gray-800 border-gray-600 text-white"
@@ -194,6 +481,13 @@ export default function Home() {
               <CardContent className="p-4 text-center">
                 <h2 className="text-xl text-white mb-2">Welcome, {player.name}!</h2>
                 <p className="text-gray-300">Choose a game mode and join or create a room to start playing.</p>
+                <Link
+                  href={`/profile/${encodeURIComponent(player.name)}`}
+                  className="inline-flex items-center gap-1 mt-2 text-sm text-red-400 hover:text-red-300"
+                >
+                  <History className="w-4 h-4" />
+                  Your profile & match history
+                </Link>
               </CardContent>
             </Card>
 
@@ -207,22 +501,23 @@ export default function Home() {
               </CardHeader>
               <CardContent>
                 <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
-                  {Object.entries(GAME_MODES).map(([key, mode]) => {
-                    const IconComponent = mode.icon
+                  {gameModes.map((mode) => {
+                    const IconComponent = getGameModeIcon(mode)
                     return (
                       <Card
-                        key={key}
+                        key={mode.id}
                         className={`cursor-pointer transition-all ${
-                          selectedGameMode === key
+                          selectedGameMode === mode.id
                             ? "bg-purple-600/30 border-purple-400"
                             : "bg-gray-800/50 border-gray-600 hover:border-purple-500"
                         }`}
-                        onClick={() => setSelectedGameMode(key)}
+                        onClick={() => setSelectedGameMode(mode.id)}
                       >
                         <CardContent className="p-4 text-center">
                           <IconComponent className="w-8 h-8 mx-auto mb-2 text-purple-400" />
                           <h3 className="text-white font-bold mb-1">{mode.name}</h3>
                           <p className="text-gray-300 text-xs">{mode.description}</p>
+                          <p className="text-gray-400 text-xs mt-1">{describeRefills(mode)}</p>
                         </CardContent>
                       </Card>
                     )
@@ -231,6 +526,78 @@ export default function Home() {
               </CardContent>
             </Card>
 
+            {/* Single Player */}
+            <Card className="bg-black/30 border-orange-500">
+              <CardHeader>
+                <CardTitle className="text-orange-400 flex items-center gap-2">
+                  <Bot className="w-5 h-5" />
+                  Play vs AI
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                <div className="grid grid-cols-1 md:grid-cols-3 gap-2">
+                  {Object.entries(BOT_DIFFICULTIES).map(([key, difficulty]) => (
+                    <Button
+                      key={key}
+                      type="button"
+                      onClick={() => setSelectedBotDifficulty(key)}
+                      className={`h-auto flex-col items-start p-2 text-left ${
+                        selectedBotDifficulty === key
+                          ? "bg-orange-600/50 border border-orange-400 hover:bg-orange-600/60"
+                          : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+                      }`}
+                    >
+                      <span className="text-white text-sm font-medium">{difficulty.name}</span>
+                      <span className="text-gray-300 text-xs font-normal">{difficulty.description}</span>
+                    </Button>
+                  ))}
+                </div>
+                {tableFormatPicker}
+                {seriesPicker}
+                <Button onClick={handlePlayBot} className="w-full bg-orange-600 hover:bg-orange-700">
+                  Play {gameModeName(selectedGameMode)} {tableFormat.teams ? "2v2 with" : "vs"}{" "}
+                  {tableFormat.maxPlayers > 2 && `${tableFormat.maxPlayers - 1} `}
+                  {BOT_DIFFICULTIES[selectedBotDifficulty as keyof typeof BOT_DIFFICULTIES].name} Bot
+                  {tableFormat.maxPlayers > 2 && "s"}
+                </Button>
+              </CardContent>
+            </Card>
+
+            {/* Ranked */}
+            <Card className="bg-black/30 border-yellow-500">
+              <CardHeader>
+                <CardTitle className="text-yellow-400 flex items-center gap-2">
+                  <Swords className="w-5 h-5" />
+                  Ranked
+                </CardTitle>
+              </CardHeader>
+              <CardContent className="space-y-4">
+                {rankedQueue ? (
+                  <>
+                    <div className="text-center">
+                      <p className="text-white">Searching for a {gameModeName(rankedQueue.gameMode)} opponent...</p>
+                      <p className="text-gray-400 text-sm">
+                        Your rating: {rankedQueue.rating} · Waiting {Math.floor(rankedQueue.waitedMs / 1000)}s
+                        {rankedQueue.searchRange !== null && ` · Range ±${rankedQueue.searchRange}`}
+                      </p>
+                    </div>
+                    <Button onClick={handleCancelRankedMatch} className="w-full bg-gray-600 hover:bg-gray-700">
+                      Cancel
+                    </Button>
+                  </>
+                ) : (
+                  <>
+                    <p className="text-gray-300 text-sm text-center">
+                      Get paired with a player of similar rating. Ranked games use a 60s turn clock.
+                    </p>
+                    <Button onClick={handleFindRankedMatch} className="w-full bg-yellow-600 hover:bg-yellow-700">
+                      Find ranked {gameModeName(selectedGameMode)} match
+                    </Button>
+                  </>
+                )}
+              </CardContent>
+            </Card>
+
             {/* Room Management */}
             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
               {/* Available Rooms */}
@@ -244,7 +611,24 @@ export default function Home() {
                     <RefreshCw className="w-4 h-4" />
                   </Button>
                 </CardHeader>
-                <CardContent>
+                <CardContent className="space-y-4">
+                  <div className="flex gap-2">
+                    <Input
+                      placeholder="Invite code"
+                      value={inviteCode}
+                      onChange={(e) => setInviteCode(e.target.value)}
+                      onKeyDown={(e) => e.key === "Enter" && handleJoinByCode()}
+                      className="bg-gray-800 border-gray-600 text-white font-mono uppercase"
+                    />
+                    <Button
+                      onClick={handleJoinByCode}
+                      disabled={!inviteCode.trim()}
+                      className="bg-blue-600 hover:bg-blue-700"
+                    >
+                      <Ticket className="w-4 h-4 mr-1" />
+                      Join
+                    </Button>
+                  </div>
                   {rooms.length === 0 ? (
                     <p className="text-gray-400 text-center py-4">No rooms available</p>
                   ) : (
@@ -258,8 +642,30 @@ export default function Home() {
                             <div className="flex items-center gap-2">
                               <h3 className="text-white font-medium">{room.name}</h3>
                               <Badge variant="outline" className="text-xs">
-                                {GAME_MODES[room.gameMode as keyof typeof GAME_MODES]?.name || room.gameMode}
+                                {gameModeName(room.gameMode)}
                               </Badge>
+                              {room.turnClock && room.turnClock !== "off" && (
+                                <Badge variant="outline" className="text-xs">
+                                  <Timer className="w-3 h-3 mr-1" />
+                                  {TURN_CLOCKS[room.turnClock as keyof typeof TURN_CLOCKS]?.name || room.turnClock}
+                                </Badge>
+                              )}
+                              {room.hasPassword && <Lock className="w-3 h-3 text-gray-400" />}
+                              {room.bestOf > 1 && (
+                                <Badge variant="outline" className="text-xs text-yellow-400 border-yellow-500">
+                                  Bo{room.bestOf}
+                                </Badge>
+                              )}
+                              {room.teams && (
+                                <Badge variant="outline" className="text-xs text-blue-300 border-blue-400">
+                                  2v2
+                                </Badge>
+                              )}
+                              {Object.keys(room.ruleOverrides).length > 0 && (
+                                <Badge variant="outline" className="text-xs text-yellow-400 border-yellow-500">
+                                  House rules
+                                </Badge>
+                              )}
                             </div>
                             <p className="text-gray-400 text-sm">
                               {room.players}/{room.maxPlayers} players
@@ -294,26 +700,170 @@ export default function Home() {
                     <Input
                       placeholder="Enter room name"
                       value={newRoomName}
+                      maxLength={40}
                       onChange={(e) => setNewRoomName(e.target.value)}
                       className="bg-gray-800 border-gray-600 text-white"
                     />
                   </div>
+                  {DEBUG_TOOLS && (
+                    <div>
+                      <label className="text-white text-sm mb-2 block">Deck Seed (debug)</label>
+                      <Input
+                        placeholder="Random"
+                        value={debugSeed}
+                        onChange={(e) => setDebugSeed(e.target.value)}
+                        className="bg-gray-800 border-gray-600 text-white font-mono"
+                      />
+                    </div>
+                  )}
                   <div>
                     <label className="text-white text-sm mb-2 block">Selected Mode</label>
                     <div className="p-3 bg-gray-800/50 rounded-lg border border-gray-600">
                       <div className="flex items-center gap-2">
-                        {React.createElement(GAME_MODES[selectedGameMode as keyof typeof GAME_MODES].icon, {
+                        {React.createElement(getGameModeIcon(selectedMode), {
                           className: "w-5 h-5 text-purple-400",
                         })}
-                        <span className="text-white font-medium">
-                          {GAME_MODES[selectedGameMode as keyof typeof GAME_MODES].name}
-                        </span>
+                        <span className="text-white font-medium">{gameModeName(selectedGameMode)}</span>
                       </div>
-                      <p className="text-gray-300 text-xs mt-1">
-                        {GAME_MODES[selectedGameMode as keyof typeof GAME_MODES].description}
-                      </p>
+                      <p className="text-gray-300 text-xs mt-1">{selectedMode?.description}</p>
+                    </div>
+                  </div>
+                  {selectedMode && (
+                    <div>
+                      <label className="text-white text-sm mb-2 block">House Rules</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {editableRules.map(([key, rule]) =>
+                          rule.type === "boolean" ? (
+                            <Button
+                              key={key}
+                              type="button"
+                              onClick={() => setHouseRule(key, !(houseRules[key] ?? getRuleValue(selectedMode, rule)))}
+                              className={`col-span-2 text-xs ${
+                                key in customRules
+                                  ? "bg-purple-600/50 border border-purple-400 hover:bg-purple-600/60"
+                                  : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+                              }`}
+                            >
+                              {rule.label}: {formatRuleValue(houseRules[key] ?? getRuleValue(selectedMode, rule))}
+                            </Button>
+                          ) : (
+                            <div key={key}>
+                              <label className="text-gray-300 text-xs mb-1 block">{rule.label}</label>
+                              <Input
+                                type="number"
+                                min={rule.min}
+                                max={rule.max}
+                                placeholder={formatRuleValue(getRuleValue(selectedMode, rule))}
+                                value={typeof houseRules[key] === "number" ? String(houseRules[key]) : ""}
+                                onChange={(e) =>
+                                  setHouseRule(key, e.target.value === "" ? null : Number(e.target.value))
+                                }
+                                className="bg-gray-800 border-gray-600 text-white"
+                              />
+                            </div>
+                          ),
+                        )}
+                      </div>
+                      <p className="text-gray-400 text-xs mt-1">Leave a rule empty to use the mode&apos;s default.</p>
+                    </div>
+                  )}
+                  <div>
+                    <label className="text-white text-sm mb-2 block">Players</label>
+                    {tableFormatPicker}
+                  </div>
+                  <div>
+                    <label className="text-white text-sm mb-2 block">Series</label>
+                    {seriesPicker}
+                  </div>
+                  <div>
+                    <label className="text-white text-sm mb-2 block">Turn Clock</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {Object.entries(TURN_CLOCKS).map(([key, clock]) => (
+                        <Button
+                          key={key}
+                          type="button"
+                          onClick={() => setSelectedTurnClock(key)}
+                          className={`h-auto flex-col items-start p-2 text-left ${
+                            selectedTurnClock === key
+                              ? "bg-purple-600/50 border border-purple-400 hover:bg-purple-600/60"
+                              : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+                          }`}
+                        >
+                          <span className="text-white text-sm font-medium">{clock.name}</span>
+                          <span className="text-gray-300 text-xs font-normal">{clock.description}</span>
+                        </Button>
+                      ))}
                     </div>
                   </div>
+                  {selectedTurnClock !== "off" && (
+                    <div>
+                      <label className="text-white text-sm mb-2 block">When Time Runs Out</label>
+                      <div className="grid grid-cols-2 gap-2">
+                        {Object.entries(TIMEOUT_ACTIONS).map(([key, label]) => (
+                          <Button
+                            key={key}
+                            type="button"
+                            onClick={() => setSelectedTimeoutAction(key)}
+                            className={`text-xs ${
+                              selectedTimeoutAction === key
+                                ? "bg-purple-600/50 border border-purple-400 hover:bg-purple-600/60"
+                                : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+                            }`}
+                          >
+                            {label}
+                          </Button>
+                        ))}
+                      </div>
+                    </div>
+                  )}
+                  <div>
+                    <label className="text-white text-sm mb-2 block">Spectators</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[false, true].map((value) => (
+                        <Button
+                          key={String(value)}
+                          type="button"
+                          onClick={() => setOpenHands(value)}
+                          className={`text-xs ${
+                            openHands === value
+                              ? "bg-purple-600/50 border border-purple-400 hover:bg-purple-600/60"
+                              : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+                          }`}
+                        >
+                          {value ? "Show hands" : "Hide hands"}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-white text-sm mb-2 block">Visibility</label>
+                    <div className="grid grid-cols-2 gap-2">
+                      {[false, true].map((value) => (
+                        <Button
+                          key={String(value)}
+                          type="button"
+                          onClick={() => setIsPrivate(value)}
+                          className={`text-xs ${
+                            isPrivate === value
+                              ? "bg-purple-600/50 border border-purple-400 hover:bg-purple-600/60"
+                              : "bg-gray-800/50 border border-gray-600 hover:bg-gray-700/50"
+                          }`}
+                        >
+                          {value ? "Private (invite only)" : "Public"}
+                        </Button>
+                      ))}
+                    </div>
+                  </div>
+                  <div>
+                    <label className="text-white text-sm mb-2 block">Password (optional)</label>
+                    <Input
+                      type="password"
+                      placeholder="No password"
+                      value={roomPassword}
+                      onChange={(e) => setRoomPassword(e.target.value)}
+                      className="bg-gray-800 border-gray-600 text-white"
+                    />
+                  </div>
                   <Button
                     onClick={handleCreateRoom}
                     disabled={!newRoomName.trim()}
@@ -324,6 +874,114 @@ export default function Home() {
                 </CardContent>
               </Card>
             </div>
+
+            {/* Games in progress */}
+            <Card className="bg-black/30 border-purple-500">
+              <CardHeader>
+                <CardTitle className="text-purple-400 flex items-center gap-2">
+                  <Eye className="w-5 h-5" />
+                  Watch
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {liveRooms.length === 0 ? (
+                  <p className="text-gray-400 text-center py-4">No games in progress</p>
+                ) : (
+                  <div className="space-y-2">
+                    {liveRooms.map((room) => (
+                      <div
+                        key={room.id}
+                        className="flex items-center justify-between p-3 bg-gray-800/50 rounded-lg border border-gray-600"
+                      >
+                        <div>
+                          <div className="flex items-center gap-2">
+                            <h3 className="text-white font-medium">{room.players.join(" vs ")}</h3>
+                            <Badge variant="outline" className="text-xs">
+                              {gameModeName(room.gameMode)}
+                            </Badge>
+                            {room.ranked && (
+                              <Badge variant="outline" className="text-xs text-yellow-400 border-yellow-500">
+                                Ranked
+                              </Badge>
+                            )}
+                          </div>
+                          <p className="text-gray-400 text-sm">
+                            Turn {room.turn} · {room.spectators} watching
+                            {room.openHands && " · Open hands"}
+                          </p>
+                        </div>
+                        <Button
+                          onClick={() => handleWatchRoom(room.id)}
+                          size="sm"
+                          className="bg-purple-600 hover:bg-purple-700"
+                        >
+                          Watch
+                        </Button>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            {/* Who is online, direct challenges and the lobby chat */}
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+              <OnlinePlayers
+                socket={socket}
+                gameModes={Object.fromEntries(gameModes.map((mode) => [mode.id, mode.name]))}
+                gameMode={selectedGameMode}
+              />
+              <ChatPanel socket={socket} roomId={null} myName={player.name} title="Lobby Chat" />
+            </div>
+
+            {/* Custom rules and password of a room, confirmed before joining */}
+            <AlertDialog open={!!pendingJoin} onOpenChange={(open) => !open && setPendingJoin(null)}>
+              <AlertDialogContent>
+                <AlertDialogHeader>
+                  <AlertDialogTitle>Join {pendingJoin?.name}</AlertDialogTitle>
+                  {pendingJoin && Object.keys(pendingJoin.ruleOverrides).length > 0 && (
+                    <AlertDialogDescription>
+                      This {gameModeName(pendingJoin.gameMode)} room changes the standard rules:
+                    </AlertDialogDescription>
+                  )}
+                </AlertDialogHeader>
+                {pendingJoin && (
+                  <HouseRulesList
+                    mode={gameModes.find((mode) => mode.id === pendingJoin.gameMode)}
+                    ruleOverrides={pendingJoin.ruleOverrides}
+                    ruleDefinitions={ruleDefinitions}
+                  />
+                )}
+                {pendingJoin?.hasPassword && (
+                  <Input
+                    type="password"
+                    placeholder="Room password"
+                    value={joinPassword}
+                    onChange={(e) => setJoinPassword(e.target.value)}
+                  />
+                )}
+                <AlertDialogFooter>
+                  <AlertDialogCancel>Cancel</AlertDialogCancel>
+                  <AlertDialogAction onClick={() => pendingJoin && handleJoinRoom(pendingJoin.id, true)}>
+                    {pendingJoin && Object.keys(pendingJoin.ruleOverrides).length > 0 ? "Accept & Join" : "Join"}
+                  </AlertDialogAction>
+                </AlertDialogFooter>
+              </AlertDialogContent>
+            </AlertDialog>
+
+            {/* Tournaments */}
+            <TournamentsPanel
+              socket={socket}
+              playerName={player.name}
+              gameModes={Object.fromEntries(gameModes.map((mode) => [mode.id, mode.name]))}
+              gameMode={selectedGameMode}
+            />
+
+            {/* Leaderboard */}
+            <Leaderboard
+              gameModes={Object.fromEntries(gameModes.map((mode) => [mode.id, mode.name]))}
+              initialMode={selectedGameMode}
+            />
           </div>
         )}
       </div>
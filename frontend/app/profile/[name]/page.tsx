@@ -0,0 +1,243 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Bot, History, Skull, Swords, Trophy, User } from "lucide-react"
+import { SERVER_URL } from "@/lib/server"
+
+interface ProfileStats {
+  gamesPlayed: number
+  wins: number
+  losses: number
+  totalTurns: number
+  handsPlayed: number
+  totalDamage: number
+  bestDamage: number
+  armorBuilt: number
+  discards: number
+  predictionsMade: number
+  predictionsCorrect: number
+  favoriteHand: string | null
+}
+
+interface ProfileMatch {
+  id: string
+  roomName: string
+  gameMode: string
+  vsBot: boolean
+  turns: number
+  startedAt: number
+  endedAt: number
+  won: boolean
+  finalHealth: number
+  opponentName: string | null
+  opponentFinalHealth: number | null
+}
+
+interface ProfileRating {
+  gameMode: string
+  rating: number
+  games: number
+  wins: number
+  losses: number
+}
+
+interface Profile {
+  name: string
+  stats: ProfileStats
+  matches: ProfileMatch[]
+  ratings: ProfileRating[]
+}
+
+function formatDuration(ms: number) {
+  const minutes = Math.floor(ms / 60000)
+  const seconds = Math.floor((ms % 60000) / 1000)
+  return `${minutes}m ${seconds.toString().padStart(2, "0")}s`
+}
+
+export default function ProfilePage() {
+  const { name } = useParams<{ name: string }>()
+  const playerName = decodeURIComponent(name)
+  const [profile, setProfile] = useState<Profile | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    fetch(`${SERVER_URL}/profiles/${encodeURIComponent(playerName)}`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Could not load profile")
+        return res.json()
+      })
+      .then(setProfile)
+      .catch((err) => setError(err.message))
+  }, [playerName])
+
+  const stats = profile?.stats
+  const winRate = stats && stats.gamesPlayed > 0 ? Math.round((stats.wins / stats.gamesPlayed) * 100) : 0
+  const averageDamage = stats && stats.handsPlayed > 0 ? Math.round(stats.totalDamage / stats.handsPlayed) : 0
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black p-4">
+      <div className="max-w-4xl mx-auto space-y-6">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+          <ArrowLeft className="w-4 h-4" />
+          Back to lobby
+        </Link>
+
+        <div className="flex items-center gap-3">
+          <User className="w-10 h-10 text-red-400" />
+          <h1 className="text-3xl md:text-4xl font-bold text-red-400">{playerName}</h1>
+        </div>
+
+        {error && (
+          <Card className="bg-red-900/50 border-red-500">
+            <CardContent className="p-4 text-center text-red-200">{error}</CardContent>
+          </Card>
+        )}
+
+        {!profile && !error && <p className="text-gray-400">Loading profile...</p>}
+
+        {stats && (
+          <Card className="bg-black/30 border-purple-500">
+            <CardHeader>
+              <CardTitle className="text-purple-400 flex items-center gap-2">
+                <Trophy className="w-5 h-5" />
+                Stats
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-center">
+                <div>
+                  <div className="text-2xl font-bold text-white">{stats.gamesPlayed}</div>
+                  <div className="text-xs text-gray-400">Games</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-green-400">{stats.wins}</div>
+                  <div className="text-xs text-gray-400">Wins</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-red-400">{stats.losses}</div>
+                  <div className="text-xs text-gray-400">Losses</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">{winRate}%</div>
+                  <div className="text-xs text-gray-400">Win rate</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">{stats.totalDamage}</div>
+                  <div className="text-xs text-gray-400">Total damage ({averageDamage} per hand)</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">{stats.bestDamage}</div>
+                  <div className="text-xs text-gray-400">Biggest hit</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">{stats.favoriteHand || "-"}</div>
+                  <div className="text-xs text-gray-400">Favorite hand</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">{stats.armorBuilt}</div>
+                  <div className="text-xs text-gray-400">Armor built</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">{stats.discards}</div>
+                  <div className="text-xs text-gray-400">Discards</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">{stats.predictionsMade}</div>
+                  <div className="text-xs text-gray-400">Predictions made</div>
+                </div>
+                <div>
+                  <div className="text-2xl font-bold text-white">{stats.predictionsCorrect}</div>
+                  <div className="text-xs text-gray-400">Predictions correct</div>
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {profile && profile.ratings.length > 0 && (
+          <Card className="bg-black/30 border-yellow-500">
+            <CardHeader>
+              <CardTitle className="text-yellow-400 flex items-center gap-2">
+                <Swords className="w-5 h-5" />
+                Ranked
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4 text-center">
+                {profile.ratings.map((rating) => (
+                  <div key={rating.gameMode} className="p-3 bg-gray-800/50 rounded-lg border border-gray-600">
+                    <div className="text-xs text-gray-400 capitalize">{rating.gameMode}</div>
+                    <div className="text-2xl font-bold text-yellow-400">{rating.rating}</div>
+                    <div className="text-xs text-gray-400">
+                      {rating.wins}W / {rating.losses}L
+                    </div>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {profile && (
+          <Card className="bg-black/30 border-red-500">
+            <CardHeader>
+              <CardTitle className="text-red-400 flex items-center gap-2">
+                <History className="w-5 h-5" />
+                Past Games
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              {profile.matches.length === 0 ? (
+                <p className="text-gray-400 text-center py-4">No finished games yet.</p>
+              ) : (
+                <div className="space-y-3">
+                  {profile.matches.map((match) => (
+                    <div
+                      key={match.id}
+                      className={`flex items-center justify-between p-3 rounded-lg border ${
+                        match.won ? "bg-green-900/20 border-green-700" : "bg-gray-800/50 border-gray-600"
+                      }`}
+                    >
+                      <div>
+                        <div className="flex items-center gap-2">
+                          {match.won ? (
+                            <Trophy className="w-4 h-4 text-yellow-400" />
+                          ) : (
+                            <Skull className="w-4 h-4 text-gray-400" />
+                          )}
+                          <span className="text-white font-medium">
+                            {match.won ? "Won" : "Lost"} vs {match.opponentName || "Unknown"}
+                          </span>
+                          {match.vsBot && <Bot className="w-4 h-4 text-orange-400" />}
+                        </div>
+                        <p className="text-xs text-gray-400 mt-1">
+                          {new Date(match.endedAt).toLocaleString()} · {match.turns} turns ·{" "}
+                          {formatDuration(match.endedAt - match.startedAt)}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <Badge variant="outline" className="capitalize text-gray-300 border-gray-500">
+                          {match.gameMode}
+                        </Badge>
+                        <p className="text-xs text-gray-400 mt-1">
+                          HP {match.finalHealth} / {match.opponentFinalHealth ?? "-"}
+                        </p>
+                        <Link href={`/replay/${match.id}`} className="text-xs text-purple-400 hover:text-purple-300">
+                          Replay
+                        </Link>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
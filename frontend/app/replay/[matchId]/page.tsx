@@ -0,0 +1,414 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Button } from "@/components/ui/button"
+import { Badge } from "@/components/ui/badge"
+import {
+  ArrowLeft,
+  ChevronLeft,
+  ChevronRight,
+  ChevronsLeft,
+  ChevronsRight,
+  Club,
+  Diamond,
+  Heart,
+  Shield,
+  Spade,
+  Zap,
+} from "lucide-react"
+import type { HandEvaluation } from "@shared/rules"
+import { SERVER_URL } from "@/lib/server"
+
+interface ReplayCard {
+  id: string
+  suit: string
+  rank: number
+  selected: boolean
+  // Older replays don't record discard marks
+  markedForDiscard?: boolean
+}
+
+interface ReplayPlayerState {
+  health: number
+  maxHealth: number
+  armor: number
+  prediction: string | null
+  hand: ReplayCard[]
+  // Older replays were recorded before parries
+  parry?: ReplayCard[]
+  deckSize: number
+  discardPileSize: number
+  // Replays from before discard tokens count the discards used instead
+  discardTokens?: number
+  discardsUsed?: number
+  discardCooldown: number
+}
+
+interface ReplayState {
+  turn: number
+  currentPlayer: number
+  players: ReplayPlayerState[]
+}
+
+interface ReplayStep {
+  seat: number
+  type:
+    | "selectCard"
+    | "markForDiscard"
+    | "discardCards"
+    | "playHand"
+    | "buildArmor"
+    | "makePrediction"
+    | "passTurn"
+    | "passCard"
+    | "setParry"
+  cardIds?: string[]
+  selected?: boolean
+  marked?: boolean
+  drawnCardIds?: string[]
+  handResult?: HandEvaluation
+  prediction?: { predicted: string; correct: boolean; damage: number } | string | null
+  armorAbsorbed?: number
+  damage?: number
+  // Who was attacked or passed a card, older duel replays leave it out
+  targetSeat?: number
+  armorGained?: number
+  // The parry revealed against an attack
+  parry?: {
+    playerIndex: number
+    cards: ReplayCard[]
+    handType: string
+    outcome: string
+    negated: number
+    reflected: number
+  } | null
+  state: ReplayState
+}
+
+interface Replay {
+  id: string
+  roomName: string
+  gameMode: string
+  seed: number | null
+  winnerSeat: number | null
+  turns: number
+  endedAt: number
+  players: { seat: number; name: string; isBot: boolean }[]
+  initialState: ReplayState
+  steps: ReplayStep[]
+}
+
+function getSuitIcon(suit: string) {
+  switch (suit) {
+    case "hearts":
+      return <Heart className="w-4 h-4 text-red-500" strokeWidth={3} />
+    case "diamonds":
+      return <Diamond className="w-4 h-4 text-red-500" strokeWidth={3} />
+    case "clubs":
+      return <Club className="w-4 h-4 text-black" strokeWidth={3} />
+    case "spades":
+      return <Spade className="w-4 h-4 text-black" strokeWidth={3} />
+    default:
+      return null
+  }
+}
+
+function getRankDisplay(rank: number) {
+  switch (rank) {
+    case 1:
+      return "A"
+    case 11:
+      return "J"
+    case 12:
+      return "Q"
+    case 13:
+      return "K"
+    default:
+      return rank.toString()
+  }
+}
+
+function CardRow({ cards, highlight }: { cards: ReplayCard[]; highlight?: string[] }) {
+  return (
+    <div className="flex gap-1 flex-wrap">
+      {cards.map((card) => (
+        <Card
+          key={card.id}
+          className={`min-w-[44px] py-1 ${
+            highlight?.includes(card.id) || card.selected
+              ? "bg-yellow-600 border-yellow-400"
+              : card.markedForDiscard
+                ? "bg-orange-400 border-orange-300"
+                : "bg-white"
+          }`}
+        >
+          <CardContent className="p-1 text-center">
+            <div className="text-base font-bold">{getRankDisplay(card.rank)}</div>
+            <div className="flex justify-center">{getSuitIcon(card.suit)}</div>
+          </CardContent>
+        </Card>
+      ))}
+    </div>
+  )
+}
+
+export default function ReplayPage() {
+  const { matchId } = useParams<{ matchId: string }>()
+  const [replay, setReplay] = useState<Replay | null>(null)
+  const [error, setError] = useState<string | null>(null)
+  // -1 is the table as dealt, before any action
+  const [position, setPosition] = useState(-1)
+
+  useEffect(() => {
+    fetch(`${SERVER_URL}/matches/${matchId}/replay`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Replay not found")
+        return res.json()
+      })
+      .then(setReplay)
+      .catch((err) => setError(err.message))
+  }, [matchId])
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black p-4">
+        <div className="max-w-4xl mx-auto">
+          <Card className="bg-red-900/50 border-red-500">
+            <CardContent className="p-4 text-center text-red-200">{error}</CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  if (!replay) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black p-4 text-gray-400">
+        Loading replay...
+      </div>
+    )
+  }
+
+  const stateAt = (index: number) => (index < 0 ? replay.initialState : replay.steps[index].state)
+  const lastPosition = replay.steps.length - 1
+  const state = stateAt(position)
+  const step = position >= 0 ? replay.steps[position] : null
+  const previousState = stateAt(position - 1)
+  const nameOf = (seat: number) => replay.players.find((p) => p.seat === seat)?.name || `Player ${seat + 1}`
+
+  // Jumps to the last step of the previous turn, or to the deal
+  const previousTurn = () => {
+    let index = position
+    while (index >= 0 && stateAt(index).turn >= state.turn) index--
+    setPosition(index)
+  }
+
+  // Jumps to the first step that moved the game to a later turn
+  const nextTurn = () => {
+    let index = position + 1
+    while (index < lastPosition && stateAt(index).turn <= state.turn) index++
+    setPosition(Math.min(index, lastPosition))
+  }
+
+  const describeStep = (current: ReplayStep) => {
+    const name = nameOf(current.seat)
+    switch (current.type) {
+      case "selectCard":
+        return `${name} ${current.selected ? "selected" : "deselected"} ${current.cardIds?.length || 0} card(s)`
+      case "markForDiscard":
+        return `${name} ${current.marked ? "marked" : "unmarked"} ${current.cardIds?.length || 0} card(s) for discard`
+      case "discardCards":
+        return `${name} discarded ${current.cardIds?.length || 0} card(s) and drew replacements`
+      case "playHand":
+        return `${name} attacked with ${current.handResult?.type}`
+      case "buildArmor":
+        return `${name} built ${current.armorGained} armor with ${current.handResult?.type}`
+      case "makePrediction":
+        return `${name} predicted ${current.prediction}`
+      case "passTurn":
+        return `${name} passed the turn`
+      case "passCard":
+        return `${name} passed a card to ${nameOf(current.targetSeat ?? 0)}`
+      case "setParry":
+        return current.cardIds?.length
+          ? `${name} set a parry of ${current.cardIds.length} card(s)`
+          : `${name} took back their parry`
+    }
+  }
+
+  // Cards the step used are gone from the hand afterwards, look them up in the state before it
+  const stepCards =
+    step && (step.type === "playHand" || step.type === "buildArmor" || step.type === "discardCards")
+      ? previousState.players[step.seat].hand.filter((card) => step.cardIds?.includes(card.id))
+      : []
+  const prediction = step?.type === "playHand" && typeof step.prediction === "object" ? step.prediction : null
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black p-4">
+      <div className="max-w-4xl mx-auto space-y-4">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+          <ArrowLeft className="w-4 h-4" />
+          Back to lobby
+        </Link>
+
+        <div className="flex items-center justify-between">
+          <h1 className="text-2xl md:text-3xl font-bold text-red-400">
+            {replay.players.map((p) => p.name).join(" vs ")}
+          </h1>
+          <div className="flex items-center gap-2">
+            {replay.seed !== null && (
+              <Badge variant="outline" className="font-mono text-gray-400 border-gray-600">
+                Seed {replay.seed}
+              </Badge>
+            )}
+            <Badge variant="outline" className="capitalize text-gray-300 border-gray-500">
+              {replay.gameMode}
+            </Badge>
+          </div>
+        </div>
+
+        {/* Controls */}
+        <Card className="bg-black/30 border-purple-500">
+          <CardContent className="p-4 space-y-3">
+            <div className="flex items-center justify-between text-white">
+              <span>Turn {state.turn}</span>
+              <span className="text-gray-400 text-sm">
+                Step {position + 1} / {replay.steps.length}
+              </span>
+            </div>
+            <div className="grid grid-cols-4 gap-2">
+              <Button onClick={previousTurn} disabled={position < 0} className="bg-purple-600 hover:bg-purple-700">
+                <ChevronsLeft className="w-4 h-4" />
+                Turn
+              </Button>
+              <Button
+                onClick={() => setPosition(position - 1)}
+                disabled={position < 0}
+                className="bg-purple-600 hover:bg-purple-700"
+              >
+                <ChevronLeft className="w-4 h-4" />
+                Step
+              </Button>
+              <Button
+                onClick={() => setPosition(position + 1)}
+                disabled={position >= lastPosition}
+                className="bg-purple-600 hover:bg-purple-700"
+              >
+                Step
+                <ChevronRight className="w-4 h-4" />
+              </Button>
+              <Button
+                onClick={nextTurn}
+                disabled={position >= lastPosition}
+                className="bg-purple-600 hover:bg-purple-700"
+              >
+                Turn
+                <ChevronsRight className="w-4 h-4" />
+              </Button>
+            </div>
+            <p className="text-center text-gray-200">{step ? describeStep(step) : "Cards dealt"}</p>
+          </CardContent>
+        </Card>
+
+        {/* Resolution of the current step */}
+        {step && (step.type === "playHand" || step.type === "buildArmor") && step.handResult && (
+          <Card className="bg-yellow-900/30 border-yellow-500">
+            <CardContent className="p-4 space-y-2">
+              <CardRow cards={stepCards} />
+              <div className="flex items-center gap-2 text-yellow-400 font-bold">
+                {step.type === "playHand" ? <Zap className="w-4 h-4" /> : <Shield className="w-4 h-4" />}
+                {step.handResult.type}
+                <span className="text-xs font-normal">
+                  (Base: {step.handResult.baseDamage} + Face: {step.handResult.faceValueDamage} ={" "}
+                  {step.handResult.damage})
+                </span>
+              </div>
+              {prediction && (
+                <p className={`text-sm ${prediction.correct ? "text-green-400" : "text-red-400"}`}>
+                  {nameOf(step.targetSeat ?? 1 - step.seat)} predicted {prediction.predicted}:{" "}
+                  {prediction.correct ? "correct, damage reduced" : "wrong, damage increased"} to {prediction.damage}
+                </p>
+              )}
+              {step.parry && (
+                <div className="space-y-1">
+                  <CardRow cards={step.parry.cards} />
+                  <p className="text-sm text-purple-300">
+                    {nameOf(step.parry.playerIndex)} revealed a {step.parry.handType} parry: {step.parry.outcome}
+                    {step.parry.negated > 0 && `, ${step.parry.negated} damage stopped`}
+                    {step.parry.reflected > 0 && `, ${step.parry.reflected} reflected back`}
+                  </p>
+                </div>
+              )}
+              {!!step.armorAbsorbed && (
+                <p className="text-sm text-blue-400">Armor absorbed {step.armorAbsorbed} damage</p>
+              )}
+              {step.type === "playHand" ? (
+                <p className="text-white">
+                  {nameOf(step.targetSeat ?? 1 - step.seat)} took{" "}
+                  <span className="text-red-400 font-bold">{step.damage}</span> damage
+                </p>
+              ) : (
+                <p className="text-white">
+                  Armor +<span className="text-blue-400 font-bold">{step.armorGained}</span>
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
+        {step?.type === "discardCards" && (
+          <Card className="bg-gray-900/50 border-gray-500">
+            <CardContent className="p-4 space-y-2">
+              <p className="text-gray-300 text-sm">Discarded</p>
+              <CardRow cards={stepCards} />
+            </CardContent>
+          </Card>
+        )}
+
+        {/* Both sides of the table */}
+        {state.players.map((playerState, seat) => (
+          <Card
+            key={seat}
+            className={`bg-black/30 ${state.currentPlayer === seat ? "border-yellow-500" : "border-gray-600"}`}
+          >
+            <CardHeader className="pb-2">
+              <CardTitle className="flex items-center justify-between text-white text-base">
+                <span>
+                  {nameOf(seat)}
+                  {replay.winnerSeat === seat && position === lastPosition && " 👑"}
+                </span>
+                <span className="text-sm text-gray-300">
+                  {playerState.health}/{playerState.maxHealth} HP
+                  {replay.gameMode === "tactical" && ` · ${playerState.armor} armor`}
+                </span>
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              <div className="w-full bg-gray-700 rounded-full h-2">
+                <div
+                  className="bg-red-500 h-2 rounded-full"
+                  style={{ width: `${(playerState.health / playerState.maxHealth) * 100}%` }}
+                ></div>
+              </div>
+              <CardRow
+                cards={playerState.hand}
+                highlight={step?.type === "discardCards" && step.seat === seat ? step.drawnCardIds : undefined}
+              />
+              <p className="text-xs text-gray-400">
+                Deck {playerState.deckSize} · Discard pile {playerState.discardPileSize} ·{" "}
+                {playerState.discardTokens !== undefined
+                  ? `Discard tokens ${playerState.discardTokens}`
+                  : `Discards used ${playerState.discardsUsed}`}
+                {playerState.prediction && ` · Predicting ${playerState.prediction}`}
+                {!!playerState.parry?.length && ` · Parry of ${playerState.parry.length} card(s)`}
+              </p>
+            </CardContent>
+          </Card>
+        ))}
+      </div>
+    </div>
+  )
+}
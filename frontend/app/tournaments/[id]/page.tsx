@@ -0,0 +1,233 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Link from "next/link"
+import { useParams } from "next/navigation"
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { ArrowLeft, Trophy } from "lucide-react"
+import { SERVER_URL } from "@/lib/server"
+import { TOURNAMENT_FORMATS } from "@/app/components/TournamentsPanel"
+
+// How often a running tournament is fetched again
+const REFRESH_MS = 5000
+
+interface TournamentMatch {
+  id: string
+  round: number
+  // null is a bye
+  entrants: [string, string | null]
+  winner: string | null
+  roomId: string | null
+}
+
+interface Standing {
+  name: string
+  wins: number
+  losses: number
+  byes: number
+  points: number
+  buchholz: number
+}
+
+interface Tournament {
+  id: string
+  name: string
+  format: keyof typeof TOURNAMENT_FORMATS
+  gameMode: string
+  bestOf: number
+  organizer: string
+  status: "registering" | "running" | "finished"
+  entrants: string[]
+  rounds: TournamentMatch[][]
+  totalRounds: number | null
+  winner: string | null
+  standings: Standing[] | null
+}
+
+function MatchCard({ match }: { match: TournamentMatch }) {
+  return (
+    <div className="rounded-lg border border-gray-600 bg-gray-800/50 text-sm">
+      {match.entrants.map((entrant, index) => (
+        <div
+          key={index}
+          className={`flex items-center justify-between px-3 py-1.5 ${index === 0 ? "border-b border-gray-700" : ""} ${
+            match.winner === null
+              ? "text-white"
+              : entrant !== null && entrant === match.winner
+                ? "text-yellow-400 font-medium"
+                : "text-gray-500"
+          }`}
+        >
+          <span>{entrant ?? "Bye"}</span>
+          {entrant !== null && entrant === match.winner && <Trophy className="w-3 h-3" />}
+        </div>
+      ))}
+      {match.winner === null && match.entrants[1] !== null && (
+        <p className="px-3 pb-1 text-xs text-gray-400">{match.roomId ? "In play" : "Waiting"}</p>
+      )}
+    </div>
+  )
+}
+
+export default function TournamentPage() {
+  const { id } = useParams<{ id: string }>()
+  const [tournament, setTournament] = useState<Tournament | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    const loadTournament = () =>
+      fetch(`${SERVER_URL}/tournaments/${id}`)
+        .then((res) => {
+          if (!res.ok) throw new Error("Tournament not found")
+          return res.json()
+        })
+        .then(setTournament)
+        .catch((err) => setError(err.message))
+
+    loadTournament()
+    const interval = setInterval(loadTournament, REFRESH_MS)
+    return () => clearInterval(interval)
+  }, [id])
+
+  if (error) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black p-4">
+        <div className="max-w-4xl mx-auto">
+          <Card className="bg-red-900/50 border-red-500">
+            <CardContent className="p-4 text-center text-red-200">{error}</CardContent>
+          </Card>
+        </div>
+      </div>
+    )
+  }
+
+  if (!tournament) {
+    return (
+      <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black p-4 text-gray-400">
+        Loading tournament...
+      </div>
+    )
+  }
+
+  // Single elimination shows the rounds still to come as empty columns
+  const upcomingRounds =
+    tournament.format === "singleElimination" && tournament.totalRounds
+      ? tournament.totalRounds - tournament.rounds.length
+      : 0
+
+  return (
+    <div className="min-h-screen bg-gradient-to-b from-purple-900 via-red-900 to-black p-4">
+      <div className="max-w-6xl mx-auto space-y-4">
+        <Link href="/" className="inline-flex items-center gap-1 text-sm text-gray-300 hover:text-white">
+          <ArrowLeft className="w-4 h-4" />
+          Back to lobby
+        </Link>
+
+        <div>
+          <h1 className="text-2xl md:text-3xl font-bold text-red-400">{tournament.name}</h1>
+          <div className="flex flex-wrap items-center gap-2 text-sm text-gray-300">
+            <Badge variant="outline" className="text-gray-300 border-gray-500">
+              {TOURNAMENT_FORMATS[tournament.format].name}
+            </Badge>
+            <span className="capitalize">{tournament.gameMode}</span>
+            {tournament.bestOf > 1 && <span>Best of {tournament.bestOf}</span>}
+            <span>Organized by {tournament.organizer}</span>
+          </div>
+        </div>
+
+        {tournament.winner && (
+          <Card className="bg-black/50 border-yellow-500">
+            <CardContent className="p-3 text-center text-yellow-400">
+              🏆 {tournament.winner} wins the tournament!
+            </CardContent>
+          </Card>
+        )}
+
+        {tournament.status === "registering" ? (
+          <Card className="bg-black/30 border-purple-500">
+            <CardHeader>
+              <CardTitle className="text-purple-300">Registered players ({tournament.entrants.length})</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {tournament.entrants.length === 0 ? (
+                <p className="text-gray-400">Nobody has registered yet</p>
+              ) : (
+                <ul className="grid grid-cols-2 sm:grid-cols-4 gap-2 text-white text-sm">
+                  {tournament.entrants.map((entrant) => (
+                    <li key={entrant}>{entrant}</li>
+                  ))}
+                </ul>
+              )}
+            </CardContent>
+          </Card>
+        ) : (
+          <div className="flex gap-4 overflow-x-auto pb-2">
+            {tournament.rounds.map((matches, index) => (
+              <div key={index} className="min-w-[200px] flex-1 space-y-2">
+                <h2 className="text-sm font-medium text-gray-300">
+                  {tournament.format === "singleElimination" && index === tournament.totalRounds! - 1
+                    ? "Final"
+                    : `Round ${index + 1}`}
+                </h2>
+                {/* Spread the later rounds out so they sit between the matches that feed them */}
+                <div
+                  className={`flex flex-col h-full ${
+                    tournament.format === "singleElimination" ? "justify-around" : ""
+                  } gap-2`}
+                >
+                  {matches.map((match) => (
+                    <MatchCard key={match.id} match={match} />
+                  ))}
+                </div>
+              </div>
+            ))}
+            {Array.from({ length: upcomingRounds }, (_, index) => (
+              <div key={`upcoming-${index}`} className="min-w-[200px] flex-1 space-y-2">
+                <h2 className="text-sm font-medium text-gray-500">
+                  {tournament.rounds.length + index === tournament.totalRounds! - 1
+                    ? "Final"
+                    : `Round ${tournament.rounds.length + index + 1}`}
+                </h2>
+                <p className="text-xs text-gray-500">Waiting for the previous round</p>
+              </div>
+            ))}
+          </div>
+        )}
+
+        {tournament.standings && tournament.status !== "registering" && (
+          <Card className="bg-black/30 border-yellow-500">
+            <CardHeader>
+              <CardTitle className="text-yellow-400 flex items-center gap-2">
+                <Trophy className="w-5 h-5" />
+                Standings
+              </CardTitle>
+            </CardHeader>
+            <CardContent className="space-y-1">
+              {tournament.standings.map((standing, index) => (
+                <div
+                  key={standing.name}
+                  className="flex items-center justify-between p-2 bg-gray-800/50 rounded-lg border border-gray-600 text-sm"
+                >
+                  <div className="flex items-center gap-3">
+                    <span className="w-6 text-right text-gray-400">{index + 1}.</span>
+                    <span className="text-white">{standing.name}</span>
+                  </div>
+                  <div className="flex items-center gap-4">
+                    <span className="text-gray-400 text-xs">
+                      {standing.wins}W / {standing.losses}L{standing.byes > 0 && ` / ${standing.byes} bye`}
+                    </span>
+                    <span className="text-gray-400 text-xs" title="Points of everyone they played">
+                      TB {standing.buchholz}
+                    </span>
+                    <span className="text-yellow-400 font-mono font-bold">{standing.points}</span>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,25 @@
+import { useEffect, useState } from "react"
+import { SERVER_URL } from "@/lib/server"
+import type { GameMode, RuleOverride } from "@/lib/game-modes"
+
+// Mode definitions and the rules hosts may change, both come from the server
+// so new modes show up without a frontend change
+export function useGameModes() {
+  const [gameModes, setGameModes] = useState<GameMode[]>([])
+  const [ruleDefinitions, setRuleDefinitions] = useState<Record<string, RuleOverride>>({})
+
+  useEffect(() => {
+    fetch(`${SERVER_URL}/modes`)
+      .then((res) => {
+        if (!res.ok) throw new Error("Could not load game modes")
+        return res.json()
+      })
+      .then(({ modes, ruleOverrides }) => {
+        setGameModes(modes)
+        setRuleDefinitions(ruleOverrides)
+      })
+      .catch((err) => console.error(err.message))
+  }, [])
+
+  return { gameModes, ruleDefinitions }
+}
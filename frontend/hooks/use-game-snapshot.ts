@@ -0,0 +1,157 @@
+import { useEffect, useRef, useState } from "react"
+import type { Socket } from "socket.io-client"
+import type { HandEvaluation, PlayingCard } from "@shared/rules"
+import type { GameMode, RuleOverrides } from "@/lib/game-modes"
+
+// Mirrors getGameSnapshot on the server
+export interface SnapshotPlayer {
+  id: string
+  name: string
+  connected: boolean
+  health: number
+  maxHealth: number
+  handSize: number
+  discardTokens: number
+  maxDiscardTokens: number
+  // Turns until the next discard token, null while the bank is full or tokens don't regenerate
+  discardRegenIn: number | null
+  maxCardsPerDiscard: number
+  // Turns until the player can discard again
+  discardCooldown: number
+  armor: number
+  // Sealed, only sent to those who can see the player's hand
+  prediction: string | null
+  // Set while a prediction is locked in, checks the reveal
+  predictionCommitment: string | null
+  // Knocked out of a free-for-all, watching the rest of the game
+  eliminated: boolean
+  // 0 or 1 in team games, teammates share health and armor. null otherwise
+  team: number | null
+  // Already passed a card to their teammate this turn
+  passedCard: boolean
+  // Cards set aside face down as a parry, visible to everyone
+  parrySize: number
+  // Only sent for the viewer's own and their teammate's seat, or for every seat in open-hand rooms
+  hand?: PlayingCard[]
+  // The parry cards themselves, sent along with the hand
+  parry?: PlayingCard[]
+}
+
+// A sealed prediction opened by the attack it guessed, sent with handPlayed and gameEnded
+export interface PredictionReveal {
+  // Seat of the player who predicted
+  playerIndex: number
+  predicted: string
+  correct: boolean
+  // Applied to the attack's damage
+  multiplier: number
+  salt: string | null
+}
+
+// A parry revealed against an attack, sent with handPlayed and gameEnded
+export interface ParryResolution {
+  // Seat of the player who set the parry
+  playerIndex: number
+  cards: PlayingCard[]
+  handType: string
+  // Weaker parries fail, the same hand type matches and stronger ones reflect
+  outcome: "failed" | "matched" | "reflected"
+  negated: number
+  // Damage sent back to the attacker
+  reflected: number
+}
+
+export interface SnapshotTurnClock {
+  playerIndex: number
+  turnMs: number
+  turnRemainingMs: number
+  timeBanks: number[]
+}
+
+// Rooms created as a best-of-N series, rematches play the next game
+export interface SnapshotSeries {
+  bestOf: number
+  // 1-based number of the game being played
+  game: number
+  // Games won per seat, teammates are both credited
+  wins: number[]
+  // Seat of the series winner once someone has a majority
+  winner: number | null
+}
+
+// Set for rooms the server opened for a tournament pairing
+export interface SnapshotTournament {
+  id: string
+  round: number
+  // The match has a winner, the room no longer offers a rematch
+  decided: boolean
+}
+
+export interface GameSnapshot {
+  version: number
+  // Seat of the viewer, -1 for spectators
+  viewerIndex: number
+  id: string
+  name: string
+  gameMode: string
+  gameState: "waiting" | "playing" | "ended"
+  currentPlayer: number
+  turn: number
+  lastPlayedHand: HandEvaluation | null
+  winner: number | null
+  // 2 for a duel, up to 4 in a free-for-all
+  maxPlayers: number
+  // Two teams of two, see SnapshotPlayer.team
+  teams: boolean
+  series: SnapshotSeries | null
+  turnClock: SnapshotTurnClock | null
+  openHands: boolean
+  ranked: boolean
+  tournament: SnapshotTournament | null
+  isPrivate: boolean
+  // Only sent to seated players
+  inviteCode: string | null
+  // The mode with the room's custom rules applied
+  rules: GameMode
+  // Only the rules the host changed
+  ruleOverrides: RuleOverrides
+  spectators: string[]
+  players: SnapshotPlayer[]
+}
+
+// Holds the latest snapshot of a room. Stale snapshots are dropped, and a fresh
+// one is requested on mount and whenever the socket reconnects.
+export function useGameSnapshot(socket: Socket | null, roomId: string, initialSnapshot: GameSnapshot | null = null) {
+  const [snapshot, setSnapshot] = useState(initialSnapshot)
+  // Local time the snapshot arrived, turn clocks count down from here
+  const [receivedAt, setReceivedAt] = useState(() => Date.now())
+  const versionRef = useRef(initialSnapshot?.version ?? -1)
+
+  useEffect(() => {
+    if (!socket) return
+
+    const requestSnapshot = () => socket.emit("requestSnapshot", { roomId })
+
+    const handleSnapshot = (next: GameSnapshot) => {
+      if (next.id !== roomId || next.version <= versionRef.current) return
+      // Every snapshot is complete, so applying a later one is enough to catch up
+      if (versionRef.current >= 0 && next.version > versionRef.current + 1) {
+        console.warn(`Missed game updates ${versionRef.current + 1}-${next.version - 1}, resynced`)
+      }
+      versionRef.current = next.version
+      setSnapshot(next)
+      setReceivedAt(Date.now())
+    }
+
+    socket.on("gameSnapshot", handleSnapshot)
+    socket.on("connect", requestSnapshot)
+    requestSnapshot()
+
+    return () => {
+      socket.off("gameSnapshot", handleSnapshot)
+      socket.off("connect", requestSnapshot)
+    }
+  }, [socket, roomId])
+
+  return { snapshot, receivedAt }
+}
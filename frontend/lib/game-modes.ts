@@ -0,0 +1,91 @@
+import { Gamepad2, Recycle, Shield, type LucideIcon } from "lucide-react"
+
+// Mirrors REFILL_STRATEGIES in server/modes.js, how a hand is topped up after an attack or armor
+export interface RefillRule {
+  strategy: "replacePlayed" | "fullHand" | "drawTo" | "drawFixed"
+  // Cards in hand for drawTo, cards drawn for drawFixed
+  count?: number
+}
+
+// Mirrors the JSON definitions in server/modes
+export interface GameMode {
+  id: string
+  name: string
+  description: string
+  icon: string
+  order: number
+  startingHealth: number
+  handSize: number
+  refill: { attack: RefillRule; armor: RefillRule }
+  faceValueDamage: boolean
+  // Discard tokens, see server/discards.js
+  discards: {
+    tokens: number
+    maxTokens: number
+    // Turns per regained token, 0 never
+    regenTurns: number
+    // Turns to wait after a discard
+    cooldownTurns: number
+    maxCards: number
+  }
+  armor: { cap: number } | null
+  predictions: { correctMultiplier: number; wrongMultiplier: number } | null
+  // Parries of the attack's hand type let matchMultiplier of the damage through, stronger ones reflect
+  // reflectMultiplier of it back
+  parry: { matchMultiplier: number; reflectMultiplier: number } | null
+}
+
+// Mirrors RULE_OVERRIDES in server/modes.js, the rules a host can change for their room
+export interface RuleOverride {
+  label: string
+  type?: "boolean"
+  min?: number
+  max?: number
+  path: string[]
+}
+
+export type RuleOverrides = Record<string, number | boolean>
+
+// Where a rule lives in a mode definition, undefined if the mode doesn't have it (armor in Classic)
+export function getRuleValue(mode: GameMode, rule: RuleOverride): number | boolean | undefined {
+  let value: unknown = mode
+  for (const step of rule.path) {
+    value = value && typeof value === "object" ? (value as Record<string, unknown>)[step] : undefined
+  }
+  return value as number | boolean | undefined
+}
+
+export function describeRefill(refill: RefillRule, handSize: number) {
+  switch (refill.strategy) {
+    case "replacePlayed":
+      return "replace the cards used"
+    case "fullHand":
+      return `draw a new hand of ${handSize}`
+    case "drawTo":
+      return `draw up to ${refill.count} cards`
+    case "drawFixed":
+      return `draw ${refill.count} cards`
+  }
+}
+
+// What happens to the hand after each action, for the mode's rules
+export function describeRefills(mode: GameMode) {
+  const attack = `After an attack: ${describeRefill(mode.refill.attack, mode.handSize)}`
+  return mode.armor ? `${attack} · After armor: ${describeRefill(mode.refill.armor, mode.handSize)}` : attack
+}
+
+export function formatRuleValue(value: number | boolean | undefined) {
+  if (typeof value === "boolean") return value ? "On" : "Off"
+  return value === undefined ? "-" : String(value)
+}
+
+// Icons a mode definition can ask for, anything else gets the gamepad
+const GAME_MODE_ICONS: Record<string, LucideIcon> = {
+  gamepad: Gamepad2,
+  shield: Shield,
+  recycle: Recycle,
+}
+
+export function getGameModeIcon(mode: GameMode | undefined) {
+  return (mode && GAME_MODE_ICONS[mode.icon]) || Gamepad2
+}
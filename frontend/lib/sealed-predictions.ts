@@ -0,0 +1,7 @@
+// Predictions are sealed until the attack they guess: the server sends a commitment, a hash of the
+// prediction and a salt, and the salt with the reveal. Same hash as server/predictions.js.
+export async function verifyPrediction(predicted: string, salt: string, commitment: string) {
+  const digest = await crypto.subtle.digest("SHA-256", new TextEncoder().encode(`${salt}:${predicted}`))
+  const hash = Array.from(new Uint8Array(digest), (byte) => byte.toString(16).padStart(2, "0")).join("")
+  return hash === commitment
+}
@@ -0,0 +1,5 @@
+// Game server the lobby socket and the HTTP pages talk to
+export const SERVER_URL = process.env.NEXT_PUBLIC_SERVER_URL || "https://demhan-server.onrender.com"
+
+// Lets a reloaded or reconnected client take its seat back
+export const SESSION_STORAGE_KEY = "demhan-session"
@@ -11,6 +11,10 @@ const nextConfig = {
   images: {
     unoptimized: true,
   },
+  experimental: {
+    // Game rules live in ../shared and are used by the server as well
+    externalDir: true,
+  },
 }
 
 export default nextConfig
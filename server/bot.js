@@ -0,0 +1,209 @@
+// Server-side AI opponent for single-player rooms.
+// The bot only decides what to do, index.js applies its choices through the
+// same playHand / discardCards / buildArmor / makePrediction rules as a human.
+const { v4: uuidv4 } = require("uuid");
+const {
+  HAND_RANKINGS,
+  HAND_TYPES,
+  evaluateHand,
+  getArmorValue,
+  getCardValue,
+} = require("../shared/rules");
+
+const BOT_DIFFICULTIES = {
+  EASY: "easy",
+  MEDIUM: "medium",
+  HARD: "hard",
+};
+
+const BOT_NAMES = {
+  [BOT_DIFFICULTIES.EASY]: "Imp",
+  [BOT_DIFFICULTIES.MEDIUM]: "Fiend",
+  [BOT_DIFFICULTIES.HARD]: "Archdemon",
+};
+
+// Hands the medium bot guesses when predicting, the ones a random 8-card hand
+// most often contains
+const COMMON_HAND_TYPES = ["High Card", "One Pair", "Two Pair"];
+
+// Bots after the first in a free-for-all room are numbered to tell them apart
+function createBot(difficulty, roomId, number = 1) {
+  const suffix = number > 1 ? ` ${number}` : "";
+  return {
+    id: `bot-${uuidv4()}`,
+    name: `${BOT_NAMES[difficulty]}${suffix} (Bot)`,
+    roomId,
+    connected: true,
+    isBot: true,
+    difficulty,
+    // Hand types the opponent has attacked with, used for predictions
+    seenHands: [],
+  };
+}
+
+function randomItem(items) {
+  return items[Math.floor(Math.random() * items.length)];
+}
+
+// Every playable hand that can be made from the given cards, strongest first
+function getPlayableHands(hand, { faceValueDamage = true } = {}) {
+  const options = [];
+  const maxSize = Math.min(5, hand.length);
+  const chosen = [];
+
+  const pick = (start) => {
+    if (chosen.length > 0) {
+      const result = evaluateHand(chosen, { faceValueDamage });
+      if (result.valid) options.push({ cards: [...chosen], result });
+    }
+    if (chosen.length === maxSize) return;
+
+    for (let i = start; i < hand.length; i++) {
+      chosen.push(hand[i]);
+      pick(i + 1);
+      chosen.pop();
+    }
+  };
+  pick(0);
+
+  return options.sort((a, b) => b.result.damage - a.result.damage);
+}
+
+// Lowest cards outside the hand the bot wants to keep
+function getDiscardCandidates(hand, keep, maxCards) {
+  return hand
+    .filter((card) => !keep.includes(card))
+    .sort((a, b) => getCardValue(a) - getCardValue(b))
+    .slice(0, maxCards);
+}
+
+function toAction(type, cards) {
+  return { type, cardIds: cards.map((card) => card.id) };
+}
+
+function chooseEasyAction(options, { canBuildArmor }) {
+  const option = randomItem(options);
+  if (canBuildArmor && Math.random() < 0.25) {
+    return toAction("armor", option.cards);
+  }
+  return toAction("attack", option.cards);
+}
+
+function chooseMediumAction(bot, options, { canBuildArmor, canDiscard }) {
+  const best = options[0];
+
+  if (canDiscard && best.result.type === "High Card" && Math.random() < 0.5) {
+    return toAction(
+      "discard",
+      getDiscardCandidates(bot.hand, best.cards, bot.maxCardsPerDiscard)
+    );
+  }
+
+  if (canBuildArmor && !bot.armor && bot.health <= bot.maxHealth / 2) {
+    return toAction("armor", best.cards);
+  }
+
+  return toAction("attack", randomItem(options.slice(0, 3)).cards);
+}
+
+function chooseHardAction(
+  bot,
+  opponent,
+  options,
+  { canBuildArmor, canDiscard }
+) {
+  const best = options[0];
+
+  // Always take a lethal attack, armor still has to be chewed through first
+  if (best.result.damage >= opponent.health + (opponent.armor || 0)) {
+    return toAction("attack", best.cards);
+  }
+
+  // Fish for something better than a pair while discards are available
+  if (
+    canDiscard &&
+    best.result.baseDamage <= HAND_RANKINGS["One Pair"].damage
+  ) {
+    const discard = getDiscardCandidates(
+      bot.hand,
+      best.cards,
+      bot.maxCardsPerDiscard
+    );
+    if (discard.length > 0) return toAction("discard", discard);
+  }
+
+  if (
+    canBuildArmor &&
+    (bot.armor || 0) < 25 &&
+    bot.health <= bot.maxHealth / 2
+  ) {
+    const sturdiest = options.reduce((a, b) =>
+      getArmorValue(b.result.type) > getArmorValue(a.result.type) ? b : a
+    );
+    return toAction("armor", sturdiest.cards);
+  }
+
+  return toAction("attack", best.cards);
+}
+
+// In a free-for-all the bot goes after whoever is closest to being knocked
+// out, armor counts as health
+function chooseBotTarget(opponents) {
+  return opponents.reduce((weakest, p) =>
+    p.health + (p.armor || 0) < weakest.health + (weakest.armor || 0)
+      ? p
+      : weakest
+  );
+}
+
+// Picks the bot's move for its turn: { type: "attack" | "armor" | "discard", cardIds }
+function chooseBotAction(bot, opponent, rules) {
+  const options = getPlayableHands(bot.hand, rules);
+  if (options.length === 0) return null;
+
+  switch (bot.difficulty) {
+    case BOT_DIFFICULTIES.HARD:
+      return chooseHardAction(bot, opponent, options, rules);
+    case BOT_DIFFICULTIES.MEDIUM:
+      return chooseMediumAction(bot, options, rules);
+    default:
+      return chooseEasyAction(options, rules);
+  }
+}
+
+// Tactical mode: picks a hand type to predict, or null to skip predicting.
+// A wrong guess makes the attack hit harder, so better bots guess less often.
+function chooseBotPrediction(bot) {
+  switch (bot.difficulty) {
+    case BOT_DIFFICULTIES.HARD: {
+      if (bot.seenHands.length < 3) return null;
+
+      const counts = {};
+      bot.seenHands.forEach((type) => {
+        counts[type] = (counts[type] || 0) + 1;
+      });
+      const [favorite, count] = Object.entries(counts).sort(
+        (a, b) => b[1] - a[1]
+      )[0];
+      return count / bot.seenHands.length >= 0.5 ? favorite : null;
+    }
+    case BOT_DIFFICULTIES.MEDIUM:
+      return Math.random() < 0.5 ? randomItem(COMMON_HAND_TYPES) : null;
+    default:
+      return randomItem(HAND_TYPES);
+  }
+}
+
+function observeOpponentHand(bot, handType) {
+  bot.seenHands.push(handType);
+}
+
+module.exports = {
+  BOT_DIFFICULTIES,
+  createBot,
+  getPlayableHands,
+  chooseBotAction,
+  chooseBotTarget,
+  chooseBotPrediction,
+  observeOpponentHand,
+};
@@ -0,0 +1,54 @@
+// Direct challenges from one lobby player to another. A challenge waits for
+// an answer until it times out, index.js opens the room once it is accepted.
+const { v4: uuidv4 } = require("uuid");
+
+const CHALLENGE_TIMEOUT_MS = 60 * 1000;
+
+// id -> { id, challenger, opponent, gameMode, timer }
+const challenges = new Map();
+
+// onExpire gets the challenge if nobody answers it in time
+function createChallenge(challenger, opponent, gameMode, onExpire) {
+  const challenge = { id: uuidv4(), challenger, opponent, gameMode };
+  challenge.timer = setTimeout(() => {
+    challenges.delete(challenge.id);
+    onExpire(challenge);
+  }, CHALLENGE_TIMEOUT_MS);
+  challenges.set(challenge.id, challenge);
+  return challenge;
+}
+
+function getChallenge(id) {
+  return challenges.get(id) || null;
+}
+
+function hasChallenge(challenger, opponent) {
+  return [...challenges.values()].some(
+    (challenge) =>
+      challenge.challenger === challenger && challenge.opponent === opponent
+  );
+}
+
+function removeChallenge(challenge) {
+  clearTimeout(challenge.timer);
+  challenges.delete(challenge.id);
+}
+
+// Drops every challenge the player sent or received and returns them
+function removeChallengesOf(player) {
+  const removed = [...challenges.values()].filter(
+    (challenge) =>
+      challenge.challenger === player || challenge.opponent === player
+  );
+  removed.forEach(removeChallenge);
+  return removed;
+}
+
+module.exports = {
+  CHALLENGE_TIMEOUT_MS,
+  createChallenge,
+  getChallenge,
+  hasChallenge,
+  removeChallenge,
+  removeChallengesOf,
+};
@@ -0,0 +1,73 @@
+// Chat at a table and in the lobby: short messages and quick emotes. The
+// histories live with their owners, this module checks and builds messages.
+const { v4: uuidv4 } = require("uuid");
+
+const MAX_CHAT_MESSAGE_LENGTH = 200;
+// Messages a history keeps for players who join or reconnect
+const CHAT_HISTORY_SIZE = 50;
+// Each player can send this many messages per window
+const CHAT_RATE_LIMIT = 5;
+const CHAT_RATE_WINDOW_MS = 10000;
+
+// id -> text, the client has the same list for its buttons
+const QUICK_EMOTES = {
+  hello: "Hello!",
+  niceHand: "Nice hand!",
+  oops: "Oops",
+  wow: "Wow!",
+  thinking: "Hmm...",
+  goodGame: "Good game",
+};
+
+// player -> times of their recent messages. Keyed by the player object so a
+// resumed session keeps its limit and nothing is left behind when it goes.
+const recentMessages = new WeakMap();
+
+// Returns what is wrong with the message, or null
+function validateChatMessage({ text, emote }) {
+  if (emote !== undefined && emote !== null) {
+    return Object.hasOwn(QUICK_EMOTES, emote) ? null : "Unknown emote";
+  }
+  if (typeof text !== "string" || !text.trim()) {
+    return "Messages can't be empty";
+  }
+  if (text.trim().length > MAX_CHAT_MESSAGE_LENGTH) {
+    return `Messages are at most ${MAX_CHAT_MESSAGE_LENGTH} characters`;
+  }
+  return null;
+}
+
+// Counts the message against the player's limit, returns true if it is over
+function isChatRateLimited(player, now = Date.now()) {
+  const recent = (recentMessages.get(player) || []).filter(
+    (sentAt) => now - sentAt < CHAT_RATE_WINDOW_MS
+  );
+  if (recent.length >= CHAT_RATE_LIMIT) {
+    recentMessages.set(player, recent);
+    return true;
+  }
+  recent.push(now);
+  recentMessages.set(player, recent);
+  return false;
+}
+
+// Adds a checked message to a history and returns it
+function addChatMessage(history, player, { text, emote }) {
+  const message = {
+    id: uuidv4(),
+    playerId: player.id,
+    playerName: player.name,
+    text: emote ? QUICK_EMOTES[emote] : text.trim(),
+    emote: emote || null,
+    sentAt: Date.now(),
+  };
+  history.push(message);
+  history.splice(0, history.length - CHAT_HISTORY_SIZE);
+  return message;
+}
+
+module.exports = {
+  addChatMessage,
+  isChatRateLimited,
+  validateChatMessage,
+};
@@ -0,0 +1,92 @@
+// SQLite connection for everything that outlives a room
+const path = require("path");
+const Database = require("better-sqlite3");
+
+const DATABASE_PATH =
+  process.env.DATABASE_PATH || path.join(__dirname, "demhan.db");
+
+const db = new Database(DATABASE_PATH);
+db.pragma("journal_mode = WAL");
+db.pragma("foreign_keys = ON");
+
+db.exec(`
+  CREATE TABLE IF NOT EXISTS matches (
+    id TEXT PRIMARY KEY,
+    room_name TEXT NOT NULL,
+    game_mode TEXT NOT NULL,
+    vs_bot INTEGER NOT NULL DEFAULT 0,
+    seed INTEGER,
+    winner_seat INTEGER,
+    turns INTEGER NOT NULL,
+    started_at INTEGER NOT NULL,
+    ended_at INTEGER NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS match_players (
+    match_id TEXT NOT NULL REFERENCES matches(id),
+    seat INTEGER NOT NULL,
+    name TEXT NOT NULL,
+    is_bot INTEGER NOT NULL DEFAULT 0,
+    final_health INTEGER NOT NULL,
+    team INTEGER,
+    PRIMARY KEY (match_id, seat)
+  );
+
+  CREATE INDEX IF NOT EXISTS match_players_name
+    ON match_players(name COLLATE NOCASE);
+
+  CREATE TABLE IF NOT EXISTS match_events (
+    match_id TEXT NOT NULL REFERENCES matches(id),
+    seq INTEGER NOT NULL,
+    turn INTEGER NOT NULL,
+    seat INTEGER NOT NULL,
+    type TEXT NOT NULL,
+    hand_type TEXT,
+    damage INTEGER,
+    armor INTEGER,
+    armor_absorbed INTEGER,
+    prediction TEXT,
+    prediction_correct INTEGER,
+    cards INTEGER,
+    target_seat INTEGER,
+    PRIMARY KEY (match_id, seq)
+  );
+
+  CREATE TABLE IF NOT EXISTS match_replays (
+    match_id TEXT PRIMARY KEY REFERENCES matches(id),
+    initial_decks TEXT NOT NULL,
+    initial_state TEXT NOT NULL,
+    steps TEXT NOT NULL
+  );
+
+  CREATE TABLE IF NOT EXISTS ratings (
+    name TEXT NOT NULL COLLATE NOCASE,
+    game_mode TEXT NOT NULL,
+    rating INTEGER NOT NULL,
+    games INTEGER NOT NULL DEFAULT 0,
+    wins INTEGER NOT NULL DEFAULT 0,
+    losses INTEGER NOT NULL DEFAULT 0,
+    updated_at INTEGER NOT NULL,
+    PRIMARY KEY (name, game_mode)
+  );
+
+  CREATE INDEX IF NOT EXISTS ratings_leaderboard
+    ON ratings(game_mode, rating DESC);
+`);
+
+// Columns added after a table was first created, older databases get them here
+function addColumn(table, column, definition) {
+  const columns = db.prepare(`PRAGMA table_info(${table})`).all();
+  if (!columns.some((c) => c.name === column)) {
+    db.exec(`ALTER TABLE ${table} ADD COLUMN ${column} ${definition}`);
+  }
+}
+
+// Who an attack hit, needed once rooms seat more than two players
+addColumn("match_events", "target_seat", "INTEGER");
+// Which side a seat played for in team games, null otherwise
+addColumn("match_players", "team", "INTEGER");
+
+console.log(`💾 Match history database: ${DATABASE_PATH}`);
+
+module.exports = db;
@@ -0,0 +1,65 @@
+// Discard tokens, the one discard economy every mode uses with its own
+// numbers. A discard costs a token. Players start with `tokens`, regain one
+// every `regenTurns` turns (never if 0) while below `maxTokens`, and wait
+// `cooldownTurns` turns after a discard before the next one.
+
+// Sets up a player's tokens for a new game, `discards` is the mode's rule
+function resetDiscardTokens(player, discards) {
+  player.discardTokens = discards.tokens;
+  player.discardCooldown = 0;
+  player.discardRegenIn = 0;
+  player.maxCardsPerDiscard = discards.maxCards;
+  startRegen(player, discards);
+}
+
+// Counts down to the next token whenever the bank isn't full and nothing is
+// counting yet. A discardRegenIn of 0 means no token is on its way.
+function startRegen(player, discards) {
+  if (
+    discards.regenTurns > 0 &&
+    player.discardTokens < discards.maxTokens &&
+    player.discardRegenIn === 0
+  ) {
+    player.discardRegenIn = discards.regenTurns;
+  }
+}
+
+// Returns what keeps the player from discarding cardCount cards, or null
+function checkDiscard(player, cardCount) {
+  if (cardCount <= 0) return "Mark the cards to discard first";
+  if (cardCount > player.maxCardsPerDiscard) {
+    return `You can discard at most ${player.maxCardsPerDiscard} cards at once`;
+  }
+  if (player.discardTokens <= 0) return "You have no discard tokens left";
+  if (player.discardCooldown > 0) {
+    return `Discards are on cooldown for ${player.discardCooldown} more turn(s)`;
+  }
+  return null;
+}
+
+function spendDiscardToken(player, discards) {
+  player.discardTokens--;
+  player.discardCooldown = discards.cooldownTurns;
+  startRegen(player, discards);
+}
+
+// Runs once per turn transition for every player. Returns true if the player
+// regained a token.
+function tickDiscardTokens(player, discards) {
+  if (player.discardCooldown > 0) player.discardCooldown--;
+  if (player.discardRegenIn === 0) return false;
+
+  player.discardRegenIn--;
+  if (player.discardRegenIn > 0) return false;
+
+  player.discardTokens++;
+  startRegen(player, discards);
+  return true;
+}
+
+module.exports = {
+  checkDiscard,
+  resetDiscardTokens,
+  spendDiscardToken,
+  tickDiscardTokens,
+};
@@ -0,0 +1,336 @@
+// Match history, replays and player profiles.
+// Events of a running game are collected in memory and written to the
+// database in one transaction once the game has a winner.
+//
+// Two logs are kept per match: events feed the profile stats, replay steps
+// record every action together with the state it produced so a finished
+// game can be stepped through from the initial decks onwards.
+const { v4: uuidv4 } = require("uuid");
+const db = require("./db");
+
+// How many past games a profile lists
+const PROFILE_MATCH_LIMIT = 50;
+
+// roomId -> { id, startedAt, events, initialDecks, initialState, steps }
+const activeMatches = new Map();
+
+const insertMatch = db.prepare(`
+  INSERT INTO matches (id, room_name, game_mode, vs_bot, seed, winner_seat, turns, started_at, ended_at)
+  VALUES (@id, @roomName, @gameMode, @vsBot, @seed, @winnerSeat, @turns, @startedAt, @endedAt)
+`);
+
+const insertPlayer = db.prepare(`
+  INSERT INTO match_players (match_id, seat, name, is_bot, final_health, team)
+  VALUES (@matchId, @seat, @name, @isBot, @finalHealth, @team)
+`);
+
+const insertEvent = db.prepare(`
+  INSERT INTO match_events (
+    match_id, seq, turn, seat, type, hand_type, damage, armor,
+    armor_absorbed, prediction, prediction_correct, cards, target_seat
+  )
+  VALUES (
+    @matchId, @seq, @turn, @seat, @type, @handType, @damage, @armor,
+    @armorAbsorbed, @prediction, @predictionCorrect, @cards, @targetSeat
+  )
+`);
+
+const insertReplay = db.prepare(`
+  INSERT INTO match_replays (match_id, initial_decks, initial_state, steps)
+  VALUES (@matchId, @initialDecks, @initialState, @steps)
+`);
+
+const saveMatchTransaction = db.transaction((match, room, winnerSeat) => {
+  insertMatch.run({
+    id: match.id,
+    roomName: room.name,
+    gameMode: room.gameMode,
+    vsBot: room.players.some((p) => p.isBot) ? 1 : 0,
+    seed: room.seed,
+    winnerSeat,
+    turns: room.turn,
+    startedAt: match.startedAt,
+    endedAt: Date.now(),
+  });
+
+  room.players.forEach((p, seat) => {
+    insertPlayer.run({
+      matchId: match.id,
+      seat,
+      name: p.name,
+      isBot: p.isBot ? 1 : 0,
+      finalHealth: p.health,
+      team: p.team ?? null,
+    });
+  });
+
+  match.events.forEach((event, seq) => {
+    insertEvent.run({
+      handType: null,
+      damage: null,
+      armor: null,
+      armorAbsorbed: null,
+      prediction: null,
+      predictionCorrect: null,
+      cards: null,
+      targetSeat: null,
+      ...event,
+      predictionCorrect:
+        event.predictionCorrect === undefined
+          ? null
+          : Number(event.predictionCorrect),
+      matchId: match.id,
+      seq,
+    });
+  });
+
+  insertReplay.run({
+    matchId: match.id,
+    initialDecks: JSON.stringify(match.initialDecks),
+    initialState: JSON.stringify(match.initialState),
+    steps: JSON.stringify(match.steps),
+  });
+});
+
+function toReplayCard(card) {
+  return {
+    id: card.id,
+    suit: card.suit,
+    rank: card.rank,
+    selected: Boolean(card.selected),
+    markedForDiscard: Boolean(card.markedForDiscard),
+  };
+}
+
+// Everything a replay viewer needs to draw the table after a step
+function snapshotRoom(room) {
+  return {
+    turn: room.turn,
+    currentPlayer: room.currentPlayer,
+    players: room.players.map((p) => ({
+      health: p.health,
+      maxHealth: p.maxHealth,
+      armor: p.armor || 0,
+      prediction: p.prediction || null,
+      hand: p.hand.map(toReplayCard),
+      parry: (p.parryCards || []).map(toReplayCard),
+      deckSize: p.deck.length,
+      discardPileSize: p.discardPile.length,
+      discardTokens: p.discardTokens,
+      discardCooldown: p.discardCooldown,
+    })),
+  };
+}
+
+// Call once the decks are dealt
+function startMatchRecord(room) {
+  activeMatches.set(room.id, {
+    id: uuidv4(),
+    startedAt: Date.now(),
+    events: [],
+    initialDecks: room.players.map((p) => ({
+      deck: p.deck.map(toReplayCard),
+      hand: p.hand.map(toReplayCard),
+      parry: (p.parryCards || []).map(toReplayCard),
+    })),
+    initialState: snapshotRoom(room),
+    steps: [],
+  });
+}
+
+// event: { seat, type, targetSeat?, handType?, damage?, armor?,
+//          armorAbsorbed?, prediction?, predictionCorrect?, cards? }
+function recordMatchEvent(room, event) {
+  const match = activeMatches.get(room.id);
+  if (!match) return;
+
+  match.events.push({ turn: room.turn, ...event });
+}
+
+// step: { seat, type, ...details of the action }
+function recordReplayStep(room, step) {
+  const match = activeMatches.get(room.id);
+  if (!match) return;
+
+  match.steps.push({ ...step, state: snapshotRoom(room) });
+}
+
+// Drops the events of a game that ended without a winner
+function discardMatchRecord(room) {
+  activeMatches.delete(room.id);
+}
+
+function saveMatch(room, winnerSeat) {
+  const match = activeMatches.get(room.id);
+  if (!match) return null;
+  activeMatches.delete(room.id);
+
+  try {
+    saveMatchTransaction(match, room, winnerSeat);
+    console.log(
+      `💾 Saved match ${match.id} (${match.events.length} events) from room ${room.name}`
+    );
+    return match.id;
+  } catch (error) {
+    console.error(`❌ Failed to save match ${match.id}:`, error);
+    return null;
+  }
+}
+
+const selectMatchesForPlayer = db.prepare(`
+  SELECT
+    m.id, m.room_name AS roomName, m.game_mode AS gameMode, m.vs_bot AS vsBot,
+    m.turns, m.started_at AS startedAt, m.ended_at AS endedAt,
+    me.seat, me.final_health AS finalHealth,
+    m.winner_seat = me.seat OR me.team = winner.team AS won,
+    GROUP_CONCAT(opponent.name, ', ') AS opponentName,
+    MAX(opponent.is_bot) AS opponentIsBot,
+    CASE WHEN COUNT(opponent.seat) = 1 THEN MAX(opponent.final_health) END
+      AS opponentFinalHealth
+  FROM match_players me
+  JOIN matches m ON m.id = me.match_id
+  LEFT JOIN match_players winner
+    ON winner.match_id = m.id AND winner.seat = m.winner_seat
+  -- Teammates are not opponents, outside team games team is null
+  LEFT JOIN match_players opponent
+    ON opponent.match_id = me.match_id AND opponent.seat != me.seat
+    AND (me.team IS NULL OR opponent.team != me.team)
+  WHERE me.name = ? COLLATE NOCASE AND me.is_bot = 0
+  GROUP BY m.id
+  ORDER BY m.ended_at DESC
+  LIMIT ${PROFILE_MATCH_LIMIT}
+`);
+
+const selectPlayerTotals = db.prepare(`
+  SELECT
+    COUNT(*) AS gamesPlayed,
+    COALESCE(SUM(m.winner_seat = me.seat OR me.team = winner.team), 0) AS wins,
+    COALESCE(SUM(m.turns), 0) AS totalTurns
+  FROM match_players me
+  JOIN matches m ON m.id = me.match_id
+  LEFT JOIN match_players winner
+    ON winner.match_id = m.id AND winner.seat = m.winner_seat
+  WHERE me.name = ? COLLATE NOCASE AND me.is_bot = 0
+`);
+
+const selectPlayerEventTotals = db.prepare(`
+  SELECT
+    COALESCE(SUM(CASE WHEN e.seat = me.seat AND e.type = 'attack' THEN 1 END), 0) AS handsPlayed,
+    COALESCE(SUM(CASE WHEN e.seat = me.seat AND e.type = 'attack' THEN e.damage END), 0) AS totalDamage,
+    COALESCE(MAX(CASE WHEN e.seat = me.seat AND e.type = 'attack' THEN e.damage END), 0) AS bestDamage,
+    COALESCE(SUM(CASE WHEN e.seat = me.seat AND e.type = 'armor' THEN e.armor END), 0) AS armorBuilt,
+    COALESCE(SUM(CASE WHEN e.seat = me.seat AND e.type = 'discard' THEN 1 END), 0) AS discards,
+    COALESCE(SUM(CASE WHEN e.seat = me.seat AND e.type = 'prediction' THEN 1 END), 0) AS predictionsMade,
+    -- Matches recorded before targets existed were all duels
+    COALESCE(SUM(CASE WHEN COALESCE(e.target_seat, 1 - e.seat) = me.seat AND e.type = 'attack' AND e.prediction_correct = 1 THEN 1 END), 0) AS predictionsCorrect
+  FROM match_players me
+  JOIN match_events e ON e.match_id = me.match_id
+  WHERE me.name = ? COLLATE NOCASE AND me.is_bot = 0
+`);
+
+const selectFavoriteHand = db.prepare(`
+  SELECT e.hand_type AS handType, COUNT(*) AS count
+  FROM match_players me
+  JOIN match_events e ON e.match_id = me.match_id AND e.seat = me.seat
+  WHERE me.name = ? COLLATE NOCASE AND me.is_bot = 0 AND e.type = 'attack'
+  GROUP BY e.hand_type
+  ORDER BY count DESC
+  LIMIT 1
+`);
+
+function getPlayerProfile(name) {
+  const totals = selectPlayerTotals.get(name);
+  const eventTotals = selectPlayerEventTotals.get(name);
+  const favoriteHand = selectFavoriteHand.get(name);
+
+  return {
+    name,
+    stats: {
+      ...totals,
+      losses: totals.gamesPlayed - totals.wins,
+      ...eventTotals,
+      favoriteHand: favoriteHand ? favoriteHand.handType : null,
+    },
+    matches: selectMatchesForPlayer.all(name).map((match) => ({
+      ...match,
+      won: Boolean(match.won),
+      vsBot: Boolean(match.vsBot),
+      opponentIsBot: Boolean(match.opponentIsBot),
+    })),
+  };
+}
+
+const selectMatch = db.prepare(`
+  SELECT
+    id, room_name AS roomName, game_mode AS gameMode, vs_bot AS vsBot, seed,
+    winner_seat AS winnerSeat, turns, started_at AS startedAt, ended_at AS endedAt
+  FROM matches
+  WHERE id = ?
+`);
+
+const selectMatchPlayers = db.prepare(`
+  SELECT seat, name, is_bot AS isBot, final_health AS finalHealth, team
+  FROM match_players
+  WHERE match_id = ?
+  ORDER BY seat
+`);
+
+const selectMatchEvents = db.prepare(`
+  SELECT
+    seq, turn, seat, type, hand_type AS handType, damage, armor,
+    armor_absorbed AS armorAbsorbed, prediction,
+    prediction_correct AS predictionCorrect, cards
+  FROM match_events
+  WHERE match_id = ?
+  ORDER BY seq
+`);
+
+function getMatch(matchId) {
+  const match = selectMatch.get(matchId);
+  if (!match) return null;
+
+  return {
+    ...match,
+    vsBot: Boolean(match.vsBot),
+    players: selectMatchPlayers
+      .all(matchId)
+      .map((p) => ({ ...p, isBot: Boolean(p.isBot) })),
+    events: selectMatchEvents.all(matchId).map((event) => ({
+      ...event,
+      predictionCorrect:
+        event.predictionCorrect === null
+          ? null
+          : Boolean(event.predictionCorrect),
+    })),
+  };
+}
+
+const selectReplay = db.prepare(`
+  SELECT initial_decks AS initialDecks, initial_state AS initialState, steps
+  FROM match_replays
+  WHERE match_id = ?
+`);
+
+function getReplay(matchId) {
+  const replay = selectReplay.get(matchId);
+  if (!replay) return null;
+
+  const { events, ...match } = getMatch(matchId);
+  return {
+    ...match,
+    initialDecks: JSON.parse(replay.initialDecks),
+    initialState: JSON.parse(replay.initialState),
+    steps: JSON.parse(replay.steps),
+  };
+}
+
+module.exports = {
+  startMatchRecord,
+  recordMatchEvent,
+  recordReplayStep,
+  discardMatchRecord,
+  saveMatch,
+  getPlayerProfile,
+  getMatch,
+  getReplay,
+};
@@ -3,6 +3,105 @@ const http = require("http");
 const socketIo = require("socket.io");
 const cors = require("cors");
 const { v4: uuidv4 } = require("uuid");
+const {
+  HAND_TYPES,
+  evaluateHand,
+  getArmorValue,
+  getCardValue,
+  validateHand,
+} = require("../shared/rules");
+const {
+  BOT_DIFFICULTIES,
+  chooseBotAction,
+  chooseBotPrediction,
+  chooseBotTarget,
+  createBot,
+  getPlayableHands,
+  observeOpponentHand,
+} = require("./bot");
+const {
+  discardMatchRecord,
+  getMatch,
+  getPlayerProfile,
+  getReplay,
+  recordMatchEvent,
+  recordReplayStep,
+  saveMatch,
+  startMatchRecord,
+} = require("./history");
+const {
+  getLeaderboard,
+  getPlayerRatings,
+  getRating,
+  recordRatedGame,
+} = require("./ratings");
+const {
+  findMatches,
+  getQueuedEntries,
+  joinQueue,
+  leaveQueue,
+} = require("./matchmaking");
+const {
+  DEFAULT_GAME_MODE,
+  RULE_OVERRIDES,
+  applyRuleOverrides,
+  getChangedRules,
+  getGameMode,
+  listGameModes,
+  validateRuleOverrides,
+} = require("./modes");
+const {
+  MAX_PASSWORD_LENGTH,
+  checkPassword,
+  createInvite,
+  findInvite,
+  hashPassword,
+  removeInvite,
+} = require("./invites");
+const { createRng, normalizeSeed, randomSeed, shuffle } = require("./random");
+const {
+  addChatMessage,
+  isChatRateLimited,
+  validateChatMessage,
+} = require("./chat");
+const { createRateLimiter, logSecurityEvent } = require("./security");
+const { sealPrediction } = require("./predictions");
+const {
+  checkDiscard,
+  resetDiscardTokens,
+  spendDiscardToken,
+  tickDiscardTokens,
+} = require("./discards");
+const {
+  MAX_PLAYER_NAME_LENGTH,
+  MAX_ROOM_NAME_LENGTH,
+  checkEvent,
+  checkName,
+  containsBlockedWord,
+} = require("./validation");
+const {
+  createChallenge,
+  getChallenge,
+  hasChallenge,
+  removeChallenge,
+  removeChallengesOf,
+} = require("./challenges");
+const {
+  MAX_TOURNAMENT_NAME_LENGTH,
+  TOURNAMENT_FORMATS,
+  addEntrant,
+  advanceTournament,
+  createTournament,
+  findMatch,
+  getCurrentRound,
+  getPendingMatch,
+  getStandings,
+  getTournament,
+  listTournaments,
+  recordResult,
+  removeEntrant,
+  startTournament,
+} = require("./tournaments");
 
 const app = express();
 const server = http.createServer(app);
@@ -19,39 +118,99 @@ app.use(express.json());
 // Game state
 const rooms = new Map();
 const players = new Map();
-
-// Game modes
-const GAME_MODES = {
-  CLASSIC: "classic",
-  TACTICAL: "tactical",
-  RECYCLING: "recycling",
+// sessionToken -> { player, disconnectTimer }
+const sessions = new Map();
+// player -> sessionToken, the identity behind a display name that isn't unique
+const sessionTokens = new WeakMap();
+// Recent messages of the lobby chat, rooms keep their own
+const lobbyChat = [];
+// tournament -> session token of the player who organized it. Display names
+// aren't unique, the token stays theirs through resumes and new names.
+const tournamentOrganizers = new WeakMap();
+// tournament -> entrant name in lower case -> session token of the player who
+// registered it. Someone else with the same name plays none of their matches.
+const tournamentEntrants = new WeakMap();
+
+// How long a dropped player's seat is held before they are removed
+const RECONNECT_GRACE_MS = 60 * 1000;
+
+// Rooms seat two players for a duel, or up to this many for a free-for-all
+const MAX_ROOM_PLAYERS = 4;
+
+// Team games are two against two, teammates sit across from each other so
+// the turns alternate between the teams
+const TEAM_ROOM_PLAYERS = 4;
+
+// How many cards over the hand size a player can hold from teammate passes
+const MAX_PASSED_CARDS = 1;
+
+// Series lengths a room can be created with, best of 1 is a single game
+const SERIES_LENGTHS = [1, 3, 5, 7];
+
+// Turn clocks selectable at room creation. Every turn gets turnSeconds of free
+// time, after that the player's bank drains chess-style until the turn times out.
+const TURN_CLOCKS = {
+  off: null,
+  quick: { turnSeconds: 30, bankSeconds: 0 },
+  standard: { turnSeconds: 60, bankSeconds: 0 },
+  bank: { turnSeconds: 10, bankSeconds: 180 },
 };
 
-// Game mode configurations
-const GAME_MODE_CONFIG = {
-  [GAME_MODES.CLASSIC]: {
-    startingHealth: 200,
-    name: "Classic",
-  },
-  [GAME_MODES.TACTICAL]: {
-    startingHealth: 300,
-    name: "Tactical",
-  },
-  [GAME_MODES.RECYCLING]: {
-    startingHealth: 300,
-    name: "Recycling",
-  },
+// What the server does for a player whose turn clock runs out
+const TIMEOUT_ACTIONS = {
+  PLAY_HIGHEST: "playHighest",
+  PASS: "pass",
 };
 
+// roomId -> { playerIndex, startedAt, timer }, kept off the room object so
+// timers never end up in a socket payload
+const turnClocks = new Map();
+
+// How long a bot "thinks" before it acts, so its moves are visible
+const BOT_THINK_MS = 1200;
+
+// roomId -> pending bot move timer
+const botTimers = new Map();
+
+// How often the ranked queues are checked for pairings
+const MATCHMAKING_INTERVAL_MS = 2000;
+
+// Ranked games always run on a clock so nobody can stall a rated game
+const RANKED_TURN_CLOCK = "standard";
+
+// Tournament games are played on the same clock as ranked ones
+const TOURNAMENT_TURN_CLOCK = "standard";
+
+// Debug option: lets createRoom pick the deck seed to reproduce a game
+const ALLOW_CUSTOM_SEEDS = process.env.ALLOW_CUSTOM_SEEDS === "true";
+
+// roomId -> PRNG dealing and reshuffling the decks of the game in progress
+const roomRngs = new Map();
+
+// roomId -> version of the latest game snapshot, bumped on every change
+const snapshotVersions = new Map();
+
+// Spectators of a room share a socket.io channel next to the players' one
+function getSpectatorChannel(roomId) {
+  return `${roomId}:spectators`;
+}
+
+// Sends a game event to both players and everyone watching the room.
+// Events only describe what happened, the state itself travels in snapshots.
+function emitToRoom(room, event, payload) {
+  io.to(room.id).emit(event, payload);
+  io.to(getSpectatorChannel(room.id)).emit(event, payload);
+}
+
 // Game logic functions
-function createDeck() {
+function createDeck(rng) {
   const suits = ["hearts", "diamonds", "clubs", "spades"];
   const deck = [];
 
   for (const suit of suits) {
     for (let rank = 1; rank <= 13; rank++) {
       deck.push({
-        id: `${suit}-${rank}-${Math.random()}`,
+        id: `${suit}-${rank}-${rng()}`,
         suit,
         rank,
         selected: false,
@@ -61,16 +220,11 @@ function createDeck() {
   }
 
   // Shuffle deck
-  for (let i = deck.length - 1; i > 0; i--) {
-    const j = Math.floor(Math.random() * (i + 1));
-    [deck[i], deck[j]] = [deck[j], deck[i]];
-  }
-
-  return deck;
+  return shuffle(deck, rng);
 }
 
 // Helper function to ensure deck has enough cards
-function ensureDeckHasCards(deck, discardPile, cardsNeeded) {
+function ensureDeckHasCards(deck, discardPile, cardsNeeded, rng) {
   console.log(
     `🔍 Checking deck: need ${cardsNeeded}, have ${
       deck.length
@@ -94,10 +248,7 @@ function ensureDeckHasCards(deck, discardPile, cardsNeeded) {
     );
 
     // Shuffle discard pile
-    for (let i = discardPile.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      [discardPile[i], discardPile[j]] = [discardPile[j], discardPile[i]];
-    }
+    shuffle(discardPile, rng);
 
     // Add to deck
     deck.push(...discardPile);
@@ -131,196 +282,82 @@ function addToDiscardPile(discardPile, cards) {
   );
 }
 
-function validateHand(cards) {
-  if (cards.length === 0) return { valid: false, error: "No cards selected" };
-
-  const sortedCards = [...cards].sort((a, b) => a.rank - b.rank);
-  const ranks = sortedCards.map((c) => c.rank);
-  const suits = sortedCards.map((c) => c.suit);
-
-  const rankCounts = {};
-  ranks.forEach((rank) => {
-    rankCounts[rank] = (rankCounts[rank] || 0) + 1;
-  });
-
-  const counts = Object.values(rankCounts).sort((a, b) => b - a);
-  const isFlush =
-    suits.every((suit) => suit === suits[0]) && cards.length === 5;
-
-  // Fixed straight validation
-  let isStraight = false;
-  let isLowStraight = false;
-  let isRoyal = false;
-  let isBroadwayStraight = false
+// Seat of the next player still in the game after the given seat
+function getNextSeat(room, seat) {
+  for (let step = 1; step <= room.players.length; step++) {
+    const next = (seat + step) % room.players.length;
+    if (!room.players[next].eliminated) return next;
+  }
+  return seat;
+}
 
-  if (cards.length === 5 && new Set(ranks).size === 5) {
-    // Check for low straight (A,2,3,4,5)
-    isLowStraight = ranks.join(",") === "1,2,3,4,5";
-    isBroadwayStraight = ranks.join(",") === "1,10,11,12,13"
+// In team games seats on the same side share a team number, everywhere else
+// every seat plays for itself
+function getTeam(room, seat) {
+  return room.players[seat].team ?? seat;
+}
 
-    // Check for regular straight (consecutive ranks)
-    if (!isLowStraight) {
-      isStraight = ranks[4] - ranks[0] === 4;
-    }
+// The seats sharing a health pool with the given seat, itself included
+function getTeamSeats(room, seat) {
+  return room.players
+    .map((_, index) => index)
+    .filter((index) => getTeam(room, index) === getTeam(room, seat));
+}
 
-    // Check for royal flush (A,10,J,Q,K) - note: this is the ONLY valid A-high straight
-    isRoyal = isFlush && isBroadwayStraight;
-  }
+// The seat's partner in a team game, or -1 if it plays alone
+function getTeammateSeat(room, seat) {
+  return getTeamSeats(room, seat).find((index) => index !== seat) ?? -1;
+}
 
-  switch (cards.length) {
-    case 1:
-      return { valid: true };
-    case 2:
-      if (counts[0] !== 2) {
-        return { valid: false, error: "Two cards must be a pair (same rank)" };
-      }
-      return { valid: true };
-    case 3:
-      if (counts[0] !== 3) {
-        return {
-          valid: false,
-          error: "Three cards must be three of a kind (same rank)",
-        };
-      }
-      return { valid: true };
-    case 4:
-      if (counts[0] === 4) {
-        return { valid: true };
-      }
-      if (counts[0] === 2 && counts[1] === 2) {
-        return { valid: true };
-      }
-      return {
-        valid: false,
-        error: "Four cards must be either four of a kind or two pair",
-      };
-    case 5:
-      if (isRoyal) return { valid: true };
-      if (isFlush && (isStraight || isLowStraight)) return { valid: true };
-      if (counts[0] === 3 && counts[1] === 2) return { valid: true };
-      if (isFlush) return { valid: true };
-      if (isStraight || isLowStraight || isBroadwayStraight) return { valid: true };
-      return {
-        valid: false,
-        error:
-          "5 cards must form: Straight, Flush, Full House, Straight Flush, or Royal Flush",
-      };
-    default:
-      return {
-        valid: false,
-        error: `Invalid number of cards: ${cards.length}. Play 1, 2, 3, 4, or 5 cards only.`,
-      };
-  }
+// Seats the given seat can attack, everyone on another team still in the game
+function getOpponentSeats(room, seat) {
+  return room.players
+    .map((_, index) => index)
+    .filter(
+      (index) =>
+        getTeam(room, index) !== getTeam(room, seat) &&
+        !room.players[index].eliminated
+    );
 }
 
-function evaluateHand(cards) {
-  const HAND_RANKINGS = {
-    "Royal Flush": { damage: 150, description: "A, K, Q, J, 10 of same suit" },
-    "Straight Flush": {
-      damage: 80,
-      description: "5 consecutive cards of same suit",
-    },
-    "Four of a Kind": { damage: 60, description: "4 cards of same rank" },
-    "Full House": { damage: 45, description: "3 of a kind + pair" },
-    Flush: { damage: 30, description: "5 cards of same suit" },
-    Straight: { damage: 25, description: "5 consecutive cards" },
-    "Three of a Kind": { damage: 20, description: "3 cards of same rank" },
-    "Two Pair": { damage: 10, description: "2 pairs of different ranks" },
-    "One Pair": { damage: 5, description: "2 cards of same rank" },
-    "High Card": { damage: 1, description: "Highest card" },
-  };
+// Who an attack goes to when none was picked, the first opponent to play
+// after the given seat
+function getDefaultTarget(room, seat) {
+  const opponents = getOpponentSeats(room, seat);
+  return opponents.find((index) => index > seat) ?? opponents[0];
+}
 
-  if (cards.length === 0)
-    return { type: "No Cards", damage: 0, description: "No cards selected" };
+// Teammates share one health and armor pool. Every seat keeps a copy, so this
+// runs after any change to a seat's health or armor.
+function shareTeamPool(room, seat) {
+  const { health, armor } = room.players[seat];
+  getTeamSeats(room, seat).forEach((index) => {
+    room.players[index].health = health;
+    room.players[index].armor = armor;
+  });
+}
 
-  const validation = validateHand(cards);
-  if (!validation.valid) {
-    return {
-      type: "Invalid Hand",
-      damage: 0,
-      description: validation.error || "Invalid combination",
-    };
-  }
+// Games a player needs to win to take the series, a majority of bestOf
+function getSeriesTarget(room) {
+  return Math.floor(room.series.bestOf / 2) + 1;
+}
 
-  const sortedCards = [...cards].sort((a, b) => a.rank - b.rank);
-  const ranks = sortedCards.map((c) => c.rank);
-  const suits = sortedCards.map((c) => c.suit);
-
-  // Calculate face value damage
-  const faceValueDamage = cards.reduce((total, card) => {
-    if (card.rank === 1) return total + 14;
-    if (card.rank === 13) return total + 13;
-    if (card.rank === 12) return total + 12;
-    if (card.rank === 11) return total + 11;
-    return total + card.rank;
-  }, 0);
-
-  const rankCounts = {};
-  ranks.forEach((rank) => {
-    rankCounts[rank] = (rankCounts[rank] || 0) + 1;
-  });
-
-  const counts = Object.values(rankCounts).sort((a, b) => b - a);
-  const isFlush =
-    suits.every((suit) => suit === suits[0]) && cards.length === 5;
-
-  // Fixed straight evaluation
-  let isStraight = false;
-  let isLowStraight = false;
-  let isRoyal = false;
-  let isBroadwayStraight = false
-
-  if (cards.length === 5 && new Set(ranks).size === 5) {
-    isLowStraight = ranks.join(",") === "1,2,3,4,5";
-    isBroadwayStraight = ranks.join(",") === "1,10,11,12,13"
-    if (!isLowStraight) {
-      isStraight = ranks[4] - ranks[0] === 4;
-    }
-    isRoyal = isFlush && isBroadwayStraight;
-  }
+// Seat of the player who has won the series, -1 while it is undecided
+function getSeriesWinner(room) {
+  if (!room.series) return -1;
+  return room.players.findIndex((p) => p.seriesWins >= getSeriesTarget(room));
+}
 
-  let handType = "";
-  let baseDamage = 0;
-
-  if (isRoyal) {
-    handType = "Royal Flush";
-    baseDamage = HAND_RANKINGS["Royal Flush"].damage;
-  } else if (isFlush && (isStraight || isLowStraight)) {
-    handType = "Straight Flush";
-    baseDamage = HAND_RANKINGS["Straight Flush"].damage;
-  } else if (counts[0] === 4) {
-    handType = "Four of a Kind";
-    baseDamage = HAND_RANKINGS["Four of a Kind"].damage;
-  } else if (counts[0] === 3 && counts[1] === 2) {
-    handType = "Full House";
-    baseDamage = HAND_RANKINGS["Full House"].damage;
-  } else if (isFlush) {
-    handType = "Flush";
-    baseDamage = HAND_RANKINGS["Flush"].damage;
-  } else if (isStraight || isLowStraight || isBroadwayStraight) {
-    handType = "Straight";
-    baseDamage = HAND_RANKINGS["Straight"].damage;
-  } else if (counts[0] === 3) {
-    handType = "Three of a Kind";
-    baseDamage = HAND_RANKINGS["Three of a Kind"].damage;
-  } else if (counts[0] === 2 && counts[1] === 2) {
-    handType = "Two Pair";
-    baseDamage = HAND_RANKINGS["Two Pair"].damage;
-  } else if (counts[0] === 2) {
-    handType = "One Pair";
-    baseDamage = HAND_RANKINGS["One Pair"].damage;
-  } else {
-    handType = "High Card";
-    baseDamage = HAND_RANKINGS["High Card"].damage;
+// Series games take turns going first, single games are a coin flip
+function chooseFirstPlayer(room, rng) {
+  const { series } = room;
+  if (series && series.game > 1) {
+    series.firstPlayer = (series.firstPlayer + 1) % room.players.length;
+    return series.firstPlayer;
   }
-
-  const totalDamage = baseDamage + faceValueDamage;
-
-  return {
-    type: handType,
-    damage: totalDamage,
-    description: `${HAND_RANKINGS[handType].description} (Base: ${baseDamage} + Face: ${faceValueDamage})`,
-  };
+  const seat = Math.floor(rng() * room.players.length);
+  if (series) series.firstPlayer = seat;
+  return seat;
 }
 
 // Start game function
@@ -331,8 +368,10 @@ function startGame(roomId) {
     return;
   }
 
-  if (room.players.length !== 2) {
-    console.log("❌ Cannot start multiplayer game - need exactly 2 players");
+  if (room.players.length !== room.maxPlayers) {
+    console.log(
+      `❌ Cannot start multiplayer game - need ${room.maxPlayers} players`
+    );
     return;
   }
 
@@ -345,26 +384,36 @@ function startMultiplayerGame(roomId) {
     `🎮 Starting ${room.gameMode} multiplayer game in room ${roomId}`
   );
 
-  const gameConfig =
-    GAME_MODE_CONFIG[room.gameMode] || GAME_MODE_CONFIG[GAME_MODES.CLASSIC];
+  const { rules } = room;
+
+  // Every start deals new decks, the room may have played before with other
+  // seats filled. Only a chosen seed deals the same game again.
+  if (!room.customSeed) {
+    room.seed = randomSeed();
+  }
+  const rng = createRng(room.seed);
+  roomRngs.set(roomId, rng);
+  console.log(`🌱 Deck seed for room ${roomId}: ${room.seed}`);
 
   // Initialize players with separate decks
   room.players.forEach((player, index) => {
-    player.health = gameConfig.startingHealth;
-    player.maxHealth = gameConfig.startingHealth;
-    player.deck = createDeck(); // Each player gets their own deck
-    player.hand = player.deck.splice(0, 8);
+    player.health = rules.startingHealth;
+    player.maxHealth = rules.startingHealth;
+    player.deck = createDeck(rng); // Each player gets their own deck
+    player.hand = player.deck.splice(0, rules.handSize);
     player.selectedCards = [];
-    player.discardsUsed = 0;
-    player.discardCooldown = 0;
-    player.maxDiscards = 3;
-    player.maxCardsPerDiscard = 5;
+    resetDiscardTokens(player, rules.discards);
     player.discardPile = [];
+    player.timeBank = room.turnClock ? room.turnClock.bankSeconds * 1000 : 0;
+    player.eliminated = false;
+    player.team = room.teams ? index % 2 : null;
+    player.passedCardOnTurn = null;
 
-    // Tactical mode specific
-    if (room.gameMode === GAME_MODES.TACTICAL) {
+    // Armor, prediction and parry state, for modes that use them
+    if (rules.armor || rules.predictions || rules.parry) {
       player.armor = 0;
       player.prediction = null;
+      player.predictionSeal = null;
       player.parryCards = [];
     }
 
@@ -373,479 +422,2327 @@ function startMultiplayerGame(roomId) {
     );
   });
 
+  // A new table of players always starts a new series
+  room.players.forEach((player) => {
+    player.seriesWins = 0;
+  });
+  if (room.series) room.series.game = 1;
+
   room.gameState = "playing";
-  room.currentPlayer = Math.floor(Math.random() * 2);
+  room.currentPlayer = chooseFirstPlayer(room, rng);
   console.log(`🎲 ${room.players[room.currentPlayer].name} goes first!`);
   room.turn = 1;
+  startMatchRecord(room);
 
   console.log("✅ Multiplayer game started, emitting to room:", roomId);
 
-  const gameData = {
-    room: {
-      ...room,
-      gameMode: room.gameMode,
-    },
-  };
-
-  io.to(roomId).emit("gameStarted", gameData);
-
-  room.players.forEach((player) => {
-    io.to(player.id).emit("gameStarted", gameData);
-    console.log(
-      `📤 Sent gameStarted to player ${player.name} (${player.id}) with mode ${room.gameMode}`
-    );
-  });
+  emitToRoom(room, "gameStarted", { roomId, gameMode: room.gameMode });
+  io.emit("roomsUpdated");
 
+  beginTurn(room);
+  broadcastSnapshot(room);
   console.log("🎯 Multiplayer game initialization complete");
 }
 
-// Socket.IO connection handling
-io.on("connection", (socket) => {
-  console.log("User connected:", socket.id);
+// Tops up a hand after an attack or armor, once the used cards are gone from
+// it, by the strategy the mode has for the action
+function refillHand(room, player, action, playedCount) {
+  const { rules } = room;
+  const { strategy, count } = rules.refill[action];
 
-  socket.on("setPlayerName", (name) => {
-    players.set(socket.id, { id: socket.id, name, roomId: null });
-    socket.emit("playerSet", { id: socket.id, name });
-    console.log(`Player ${name} (${socket.id}) set name`);
-  });
+  if (strategy === "fullHand") {
+    // The rest of the hand is thrown away for a whole new one
+    addToDiscardPile(player.discardPile, player.hand);
+    player.hand = [];
+  }
 
-  socket.on("getRooms", () => {
-    const availableRooms = Array.from(rooms.values())
-      .filter((room) => room.players.length < 2)
-      .map((room) => ({
-        id: room.id,
-        name: room.name,
-        players: room.players.length,
-        maxPlayers: 2,
-        gameMode: room.gameMode,
-      }));
-    socket.emit("roomsList", availableRooms);
-  });
+  // A set parry still counts as held cards, it comes back to the hand when it
+  // is taken back and is replaced when it is used up
+  const heldCards = player.hand.length + (player.parryCards || []).length;
+  const cardsToDraw = {
+    replacePlayed: playedCount,
+    fullHand: rules.handSize - heldCards,
+    drawTo: count - heldCards,
+    // Never past the hand size, or a hand would grow with every single card
+    drawFixed: Math.min(count, rules.handSize - heldCards),
+  }[strategy];
+  if (cardsToDraw <= 0) return;
+
+  if (
+    !ensureDeckHasCards(
+      player.deck,
+      player.discardPile,
+      cardsToDraw,
+      roomRngs.get(room.id)
+    )
+  ) {
+    console.log(`⚠️ Warning: Not enough cards to draw ${cardsToDraw}`);
+  }
 
-  socket.on("createRoom", ({ roomName, gameMode = GAME_MODES.CLASSIC }) => {
-    const roomId = uuidv4();
-    const player = players.get(socket.id);
+  const newCards = player.deck
+    .splice(0, Math.min(cardsToDraw, player.deck.length))
+    .map((card) => ({
+      ...card,
+      selected: false,
+      markedForDiscard: false,
+    }));
+  player.hand.push(...newCards);
+  console.log(
+    `🔄 ${room.gameMode} mode: ${player.name} drew ${newCards.length} cards after ${action} (${strategy})`
+  );
+}
 
-    if (!player) {
-      socket.emit("error", "Player not found");
-      return;
-    }
+// Resolves an attack with the current player's selected cards on the player
+// in the target seat. Returns the error if the target or the selection is not
+// playable.
+function playHand(room, targetIndex) {
+  const playerIndex = room.currentPlayer;
+  const currentPlayer = room.players[playerIndex];
+  if (!getOpponentSeats(room, playerIndex).includes(targetIndex)) {
+    return "Choose an opponent to attack";
+  }
+  const enemyPlayer = room.players[targetIndex];
+  const { rules } = room;
 
-    const room = {
-      id: roomId,
-      name: roomName,
-      gameMode: gameMode,
-      players: [player],
-      gameState: "waiting",
-      currentPlayer: 0,
-      turn: 1,
-      lastPlayedHand: null,
-    };
+  const overlapError = checkSelections(currentPlayer);
+  if (overlapError) return overlapError;
 
-    rooms.set(roomId, room);
-    player.roomId = roomId;
+  const validation = validateHand(currentPlayer.selectedCards);
+  if (!validation.valid) {
+    return validation.error;
+  }
 
-    socket.join(roomId);
-    socket.emit("roomCreated", { roomId, room });
-    io.emit("roomsUpdated");
+  const handResult = evaluateHand(currentPlayer.selectedCards, {
+    faceValueDamage: rules.faceValueDamage,
+  });
+  let finalDamage = handResult.damage;
+  const prediction = enemyPlayer.prediction;
+  let predictionReveal = null;
+
+  if (enemyPlayer.isBot) {
+    observeOpponentHand(enemyPlayer, handResult.type);
+  }
 
+  // Predictions: a correct guess softens the hit, a wrong one makes it worse
+  if (rules.predictions && enemyPlayer.prediction) {
     console.log(
-      `Room ${roomName} (${roomId}) created by ${player.name} - Mode: ${gameMode}`
+      `🎯 Checking prediction: ${enemyPlayer.prediction} vs actual: ${handResult.type}`
     );
-  });
 
-  socket.on("joinRoom", (roomId) => {
-    const room = rooms.get(roomId);
-    const player = players.get(socket.id);
+    const correct = enemyPlayer.prediction === handResult.type;
+    const multiplier = correct
+      ? rules.predictions.correctMultiplier
+      : rules.predictions.wrongMultiplier;
+    finalDamage = Math.floor(finalDamage * multiplier);
 
-    if (!room) {
-      socket.emit("error", "Room not found");
-      return;
+    if (correct) {
+      console.log(
+        `✅ ${enemyPlayer.name} correctly predicted ${handResult.type}! Damage reduced from ${handResult.damage} to ${finalDamage}`
+      );
+    } else {
+      console.log(
+        `❌ ${enemyPlayer.name} incorrectly predicted ${enemyPlayer.prediction}, actual was ${handResult.type}. Damage increased from ${handResult.damage} to ${finalDamage}`
+      );
     }
 
-    if (!player) {
-      socket.emit("error", "Player not found");
-      return;
-    }
+    // The sealed prediction is opened for everyone with the attack
+    predictionReveal = {
+      playerIndex: targetIndex,
+      predicted: prediction,
+      correct,
+      multiplier,
+      salt: enemyPlayer.predictionSeal ? enemyPlayer.predictionSeal.salt : null,
+    };
 
-    if (room.players.length >= 2) {
-      socket.emit("error", "Room is full");
-      return;
-    }
+    // Reset prediction after use
+    enemyPlayer.prediction = null;
+    enemyPlayer.predictionSeal = null;
+  }
 
-    if (room.players.find((p) => p.id === socket.id)) {
-      socket.emit("error", "You are already in this room");
-      return;
+  const predictedDamage = finalDamage;
+
+  // A face-down parry is revealed and can turn part of the hit away
+  const parry = resolveParry(room, targetIndex, handResult, finalDamage);
+  if (parry) {
+    finalDamage -= parry.negated;
+    if (parry.reflected > 0) {
+      // Reflected damage goes straight to health, armor doesn't stop it
+      currentPlayer.health = Math.max(
+        0,
+        currentPlayer.health - parry.reflected
+      );
+      shareTeamPool(room, playerIndex);
     }
+  }
 
-    room.players.push(player);
-    player.roomId = roomId;
-
-    socket.join(roomId);
+  // Armor soaks up damage before health does
+  let armorAbsorbed = 0;
+  if (rules.armor && enemyPlayer.armor > 0) {
+    armorAbsorbed = Math.min(enemyPlayer.armor, finalDamage);
+    enemyPlayer.armor -= armorAbsorbed;
+    finalDamage -= armorAbsorbed;
     console.log(
-      `👥 Player ${player.name} joined room ${room.name} (${room.players.length}/2) - Mode: ${room.gameMode}`
+      `🛡️ ${enemyPlayer.name}'s armor absorbed ${armorAbsorbed} damage. Remaining armor: ${enemyPlayer.armor}, Final damage: ${finalDamage}`
     );
+  }
 
-    // Send room data with game mode to all players
-    io.to(roomId).emit("playerJoined", {
-      player,
-      room: {
-        ...room,
-        gameMode: room.gameMode,
-      },
-    });
-    io.emit("roomsUpdated");
-
-    if (room.players.length === 2) {
-      console.log("🎯 Room full, starting multiplayer game in .5 seconds...");
-      setTimeout(() => {
-        startGame(roomId);
-      }, 500);
-    }
+  // Deal damage to enemy
+  enemyPlayer.health = Math.max(0, enemyPlayer.health - finalDamage);
+  shareTeamPool(room, targetIndex);
+
+  recordMatchEvent(room, {
+    seat: playerIndex,
+    targetSeat: targetIndex,
+    type: "attack",
+    handType: handResult.type,
+    damage: finalDamage,
+    armorAbsorbed,
+    cards: currentPlayer.selectedCards.length,
+    ...(prediction
+      ? { prediction, predictionCorrect: prediction === handResult.type }
+      : {}),
+    ...(parry ? { parry: parry.outcome } : {}),
   });
 
-  socket.on("selectCard", ({ roomId, cardId }) => {
-    const room = rooms.get(roomId);
-    const player = players.get(socket.id);
-
-    if (!room || !player || room.gameState !== "playing") return;
+  // Handle played cards - add to player's discard pile
+  const playedCards = currentPlayer.hand.filter((c) => c.selected);
+  currentPlayer.hand = currentPlayer.hand.filter((c) => !c.selected);
+  currentPlayer.selectedCards = [];
+
+  // Add played cards to player's discard pile
+  addToDiscardPile(currentPlayer.discardPile, playedCards);
+
+  refillHand(room, currentPlayer, "attack", playedCards.length);
+
+  room.lastPlayedHand = { ...handResult, damage: finalDamage };
+
+  recordReplayStep(room, {
+    seat: playerIndex,
+    targetSeat: targetIndex,
+    type: "playHand",
+    cardIds: playedCards.map((card) => card.id),
+    handResult,
+    prediction: prediction
+      ? {
+          predicted: prediction,
+          correct: prediction === handResult.type,
+          damage: predictedDamage,
+        }
+      : null,
+    armorAbsorbed,
+    parry,
+    damage: finalDamage,
+  });
 
-    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
-    if (playerIndex !== room.currentPlayer) return;
+  // A reflecting parry can knock out the attacker instead
+  const reveals = { parry, prediction: predictionReveal };
+  if (
+    enemyPlayer.health <= 0 &&
+    knockOut(room, targetIndex, playerIndex, reveals)
+  ) {
+    return null;
+  }
+  if (
+    currentPlayer.health <= 0 &&
+    knockOut(room, playerIndex, targetIndex, reveals)
+  ) {
+    return null;
+  }
 
-    const currentPlayer = room.players[playerIndex];
-    const card = currentPlayer.hand.find((c) => c.id === cardId);
+  switchTurn(room);
 
-    if (card) {
-      card.selected = !card.selected;
-      currentPlayer.selectedCards = currentPlayer.hand.filter(
-        (c) => c.selected
-      );
+  emitToRoom(room, "handPlayed", {
+    playerIndex,
+    targetIndex,
+    handResult: room.lastPlayedHand,
+    ...reveals,
+  });
+  beginTurn(room);
+  broadcastSnapshot(room);
+  return null;
+}
 
-      io.to(roomId).emit("cardSelected", {
-        playerIndex,
-        cardId,
-        selected: card.selected,
-      });
-    }
+// A knocked out player keeps their seat and watches, the last player (or
+// team) standing wins. An empty team pool knocks out both teammates. Returns
+// true if that ended the game.
+function knockOut(room, seat, by, reveals) {
+  const knockedOut = getTeamSeats(room, seat).filter(
+    (index) => !room.players[index].eliminated
+  );
+  knockedOut.forEach((index) => {
+    room.players[index].eliminated = true;
+    console.log(
+      `💀 ${room.players[index].name} was knocked out by ${room.players[by].name}`
+    );
+  });
+  if (getOpponentSeats(room, by).length === 0) {
+    endGame(room, by, reveals);
+    return true;
+  }
+  knockedOut.forEach((index) => {
+    emitToRoom(room, "playerEliminated", { playerIndex: index, by });
   });
+  return false;
+}
 
-  socket.on("markForDiscard", ({ roomId, cardId }) => {
-    const room = rooms.get(roomId);
-    const player = players.get(socket.id);
+// Ends the game in favour of the player left standing. The parry and the
+// prediction a last attack revealed go along to the game over screen.
+function endGame(room, winnerIndex, reveals = {}) {
+  const winner = room.players[winnerIndex];
+  room.gameState = "ended";
+  stopTurnClock(room);
+  const matchId = saveMatch(room, winnerIndex);
+
+  // The game counts for the winner's whole team
+  getTeamSeats(room, winnerIndex).forEach((seat) => {
+    room.players[seat].seriesWins++;
+  });
+  const seriesWinner = room.players[getSeriesWinner(room)];
+  if (seriesWinner) {
+    console.log(
+      `🏆 ${seriesWinner.name} won the best of ${room.series.bestOf} series in room ${room.name}`
+    );
+  }
 
-    if (!room || !player || room.gameState !== "playing") return;
+  emitToRoom(room, "gameEnded", {
+    winner: { id: winner.id, name: winner.name },
+    handResult: room.lastPlayedHand,
+    parry: reveals.parry || null,
+    prediction: reveals.prediction || null,
+    matchId,
+    ratingChanges: applyRankedResult(room, winnerIndex),
+    seriesWinner: seriesWinner
+      ? { id: seriesWinner.id, name: seriesWinner.name }
+      : null,
+  });
+  // A tournament match is decided by its last game
+  if (room.tournament && (!room.series || seriesWinner)) {
+    reportTournamentResult(room, (seriesWinner || winner).name);
+  }
+  // Seats given up during the game are free again for the next one
+  room.players = room.players.filter((p) => !p.left);
+  broadcastSnapshot(room);
+  io.emit("roomsUpdated");
+}
 
-    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
-    if (playerIndex !== room.currentPlayer) return;
+// Every turn transition goes through here, whatever ended the turn
+function switchTurn(room) {
+  stopTurnClock(room);
 
-    const currentPlayer = room.players[playerIndex];
-    const card = currentPlayer.hand.find((c) => c.id === cardId);
+  // Discard marks only last for the turn they were made in
+  room.players[room.currentPlayer].hand.forEach((card) => {
+    card.markedForDiscard = false;
+  });
+  room.currentPlayer = getNextSeat(room, room.currentPlayer);
+  room.turn++;
 
-    if (card) {
-      card.markedForDiscard = !card.markedForDiscard;
-      io.to(roomId).emit("cardMarkedForDiscard", {
-        playerIndex,
-        cardId,
-        marked: card.markedForDiscard,
-      });
+  room.players.forEach((p) => {
+    if (tickDiscardTokens(p, room.rules.discards)) {
+      console.log(
+        `🪙 ${p.name} regained a discard token (${p.discardTokens}/${room.rules.discards.maxTokens})`
+      );
     }
   });
+}
 
-  socket.on("discardCards", ({ roomId }) => {
-    const room = rooms.get(roomId);
-    const player = players.get(socket.id);
-
-    if (!room || !player || room.gameState !== "playing") return;
-
-    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
-    if (playerIndex !== room.currentPlayer) return;
+// Ends the current player's turn without an action
+function passTurn(room) {
+  const playerIndex = room.currentPlayer;
+  const currentPlayer = room.players[playerIndex];
 
-    const currentPlayer = room.players[playerIndex];
-    const selectedCards = currentPlayer.selectedCards;
+  currentPlayer.hand.forEach((card) => {
+    card.selected = false;
+  });
+  currentPlayer.selectedCards = [];
 
-    if (
-      selectedCards.length === 0 ||
-      selectedCards.length > currentPlayer.maxCardsPerDiscard ||
-      currentPlayer.discardsUsed >= currentPlayer.maxDiscards ||
-      currentPlayer.discardCooldown > 0
-    )
-      return;
+  switchTurn(room);
+  console.log(`⏭️ ${currentPlayer.name} passed the turn`);
+  recordReplayStep(room, { seat: playerIndex, type: "passTurn" });
 
-    console.log(
-      `🗑️ Player ${currentPlayer.name} discarding ${selectedCards.length} cards`
-    );
+  emitToRoom(room, "turnPassed", { playerIndex });
+  beginTurn(room);
+  broadcastSnapshot(room);
+}
 
-    // Ensure we have enough cards in deck before discarding
-    if (
-      !ensureDeckHasCards(
-        currentPlayer.deck,
-        currentPlayer.discardPile,
-        selectedCards.length
-      )
-    ) {
-      socket.emit("error", "Not enough cards available to complete discard");
-      return;
-    }
+function getTurnClockState(room) {
+  const clock = turnClocks.get(room.id);
+  if (!room.turnClock || !clock) return null;
 
-    // Remove selected cards from hand
-    currentPlayer.hand = currentPlayer.hand.filter((c) => !c.selected);
+  const turnMs = room.turnClock.turnSeconds * 1000;
+  const elapsed = Date.now() - clock.startedAt;
+  const overtime = Math.max(0, elapsed - turnMs);
 
-    // Add discarded cards to player's discard pile
-    addToDiscardPile(currentPlayer.discardPile, selectedCards);
+  return {
+    playerIndex: clock.playerIndex,
+    turnMs,
+    turnRemainingMs: Math.max(0, turnMs - elapsed),
+    timeBanks: room.players.map((p, idx) =>
+      idx === clock.playerIndex
+        ? Math.max(0, p.timeBank - overtime)
+        : p.timeBank
+    ),
+  };
+}
 
-    // Draw new cards to replace discarded ones
-    const newCards = currentPlayer.deck
-      .splice(0, selectedCards.length)
-      .map((card) => ({
-        ...card,
-        selected: false,
-        markedForDiscard: false,
-      }));
+function startTurnClock(room) {
+  if (!room.turnClock || room.gameState !== "playing") return;
 
-    currentPlayer.hand.push(...newCards);
-    currentPlayer.selectedCards = [];
-    currentPlayer.discardsUsed++;
+  const player = room.players[room.currentPlayer];
+  const remainingMs = room.turnClock.turnSeconds * 1000 + player.timeBank;
 
-    if (currentPlayer.discardsUsed >= currentPlayer.maxDiscards) {
-      currentPlayer.discardCooldown = 5;
-      console.log("Start Discard Cooldown: ", currentPlayer.discardCooldown)
-    }
+  turnClocks.set(room.id, {
+    playerIndex: room.currentPlayer,
+    startedAt: Date.now(),
+    timer: setTimeout(() => handleTurnTimeout(room.id), remainingMs),
+  });
+}
 
-    console.log(
-      `✅ Player ${currentPlayer.name} now has ${currentPlayer.hand.length} cards`
-    );
+// Stops the running clock and charges any overtime to the player's bank
+function stopTurnClock(room) {
+  const clock = turnClocks.get(room.id);
+  if (!clock) return;
 
-    io.to(roomId).emit("gameStateUpdate", {
-      players: room.players.map((p, idx) => ({
-        id: p.id,
-        name: p.name,
-        health: p.health,
-        maxHealth: p.maxHealth,
-        handSize: p.hand.length,
-        discardsUsed: p.discardsUsed,
-        maxDiscards: p.maxDiscards,
-        maxCardsPerDiscard: p.maxCardsPerDiscard,
-        discardCooldown: p.discardCooldown,
-        ...(room.gameMode === GAME_MODES.TACTICAL ? { armor: p.armor } : {}),
-        ...(idx === playerIndex ? { hand: p.hand } : {}),
-      })),
-    });
-  });
+  clearTimeout(clock.timer);
+  turnClocks.delete(room.id);
 
-  // Tactical mode: Prediction system
-  socket.on("makePrediction", ({ roomId, prediction }) => {
-    const room = rooms.get(roomId);
-    const player = players.get(socket.id);
+  const player = room.players[clock.playerIndex];
+  if (player) {
+    const overtime =
+      Date.now() - clock.startedAt - room.turnClock.turnSeconds * 1000;
+    if (overtime > 0) {
+      player.timeBank = Math.max(0, player.timeBank - overtime);
+    }
+  }
+}
 
-    if (!room || !player || room.gameMode !== GAME_MODES.TACTICAL) return;
+// Everything that happens when a player's turn starts
+function beginTurn(room) {
+  startTurnClock(room);
+  scheduleBotMove(room);
+}
 
-    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
-    const currentPlayer = room.players[playerIndex];
+function scheduleBotMove(room) {
+  clearTimeout(botTimers.get(room.id));
+  botTimers.delete(room.id);
 
-    // Allow prediction only when it's NOT your turn (you can't predict your own hand)
-    if (playerIndex === room.currentPlayer) {
-      socket.emit("error", "You cannot predict your own hand");
-      return;
-    }
+  if (room.gameState !== "playing") return;
 
-    currentPlayer.prediction = prediction;
+  const currentPlayer = room.players[room.currentPlayer];
+  const waitingBots = getOpponentSeats(room, room.currentPlayer)
+    .map((seat) => room.players[seat])
+    .filter((p) => p.isBot && !p.prediction);
 
-    console.log(`🔮 ${currentPlayer.name} predicted: ${prediction}`);
+  if (currentPlayer.isBot) {
+    botTimers.set(
+      room.id,
+      setTimeout(() => runBotTurn(room.id), BOT_THINK_MS)
+    );
+  } else if (room.rules.predictions && waitingBots.length > 0) {
+    botTimers.set(
+      room.id,
+      setTimeout(() => runBotPrediction(room.id), BOT_THINK_MS)
+    );
+  }
+}
 
-    // Broadcast to all players in the room
-    io.to(roomId).emit("predictionMade", { playerIndex, prediction });
+// Replaces the current player's selection, used for moves the server makes.
+// Selected cards lose their discard mark.
+function selectCards(room, cardIds) {
+  const player = room.players[room.currentPlayer];
+  player.hand.forEach((card) => {
+    card.selected = cardIds.includes(card.id);
+    if (card.selected) card.markedForDiscard = false;
   });
+  player.selectedCards = player.hand.filter((c) => c.selected);
+  recordReplayStep(room, {
+    seat: room.currentPlayer,
+    type: "selectCard",
+    cardIds,
+    selected: true,
+  });
+}
 
-  socket.on("playHand", ({ roomId }) => {
-    const room = rooms.get(roomId);
-    const player = players.get(socket.id);
+// Replaces the current player's discard marks, the server's counterpart of
+// markForDiscard. Marked cards leave the selection.
+function markCards(room, cardIds) {
+  const player = room.players[room.currentPlayer];
+  player.hand.forEach((card) => {
+    card.markedForDiscard = cardIds.includes(card.id);
+    if (card.markedForDiscard) card.selected = false;
+  });
+  player.selectedCards = player.hand.filter((c) => c.selected);
+  recordReplayStep(room, {
+    seat: room.currentPlayer,
+    type: "markForDiscard",
+    cardIds,
+    marked: true,
+  });
+}
 
-    if (!room || !player || room.gameState !== "playing") return;
+// A turn has two selections: cards marked for discard and the hand to play.
+// Returns an error if a card is in both, or null.
+function checkSelections(player) {
+  return player.hand.some((c) => c.selected && c.markedForDiscard)
+    ? "A card can't be both discarded and played"
+    : null;
+}
 
-    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
-    if (playerIndex !== room.currentPlayer) return;
+function runBotTurn(roomId) {
+  botTimers.delete(roomId);
 
-    const currentPlayer = room.players[playerIndex];
-    const enemyPlayer = room.players[1 - playerIndex];
+  const room = rooms.get(roomId);
+  if (!room || room.gameState !== "playing") return;
 
-    if (currentPlayer.selectedCards.length === 0) return;
+  const bot = room.players[room.currentPlayer];
+  if (!bot.isBot) return;
+  const opponent = chooseBotTarget(
+    getOpponentSeats(room, room.currentPlayer).map((seat) => room.players[seat])
+  );
 
-    const validation = validateHand(currentPlayer.selectedCards);
-    if (!validation.valid) {
-      socket.emit("invalidHand", validation.error);
+  let action = chooseBotAction(bot, opponent, {
+    canBuildArmor: Boolean(room.rules.armor),
+    faceValueDamage: room.rules.faceValueDamage,
+    canDiscard: !checkDiscard(bot, 1),
+  });
+  if (!action) {
+    passTurn(room);
+    return;
+  }
+
+  console.log(
+    `🤖 ${bot.name} chose to ${action.type} with ${action.cardIds.length} cards`
+  );
+
+  if (action.type === "discard") {
+    markCards(room, action.cardIds);
+    const error = discardCards(room);
+    if (!error) {
+      // Discarding does not end the turn, think again with the new hand
+      scheduleBotMove(room);
+      return;
+    }
+    // Thinking again would pick the same discard, attack with the best hand
+    console.log(`⚠️ ${bot.name} could not discard: ${error}`);
+    const [best] = getPlayableHands(bot.hand, {
+      faceValueDamage: room.rules.faceValueDamage,
+    });
+    action = {
+      type: "attack",
+      cardIds: best.cards.map((card) => card.id),
+    };
+  }
+
+  selectCards(room, action.cardIds);
+  const error =
+    action.type === "armor"
+      ? buildArmor(room)
+      : playHand(room, room.players.indexOf(opponent));
+  if (error) {
+    console.log(`⚠️ ${bot.name} made an invalid move: ${error}`);
+    passTurn(room);
+  }
+}
+
+function runBotPrediction(roomId) {
+  botTimers.delete(roomId);
+
+  const room = rooms.get(roomId);
+  if (!room || room.gameState !== "playing") return;
+
+  getOpponentSeats(room, room.currentPlayer).forEach((botIndex) => {
+    const bot = room.players[botIndex];
+    if (!bot.isBot || bot.prediction) return;
+
+    const prediction = chooseBotPrediction(bot);
+    if (prediction) {
+      makePrediction(room, botIndex, prediction);
+    }
+  });
+}
+
+function handleTurnTimeout(roomId) {
+  const room = rooms.get(roomId);
+  if (!room || room.gameState !== "playing") return;
+
+  const playerIndex = room.currentPlayer;
+  const currentPlayer = room.players[playerIndex];
+  console.log(
+    `⏰ ${currentPlayer.name} ran out of time in room ${roomId}, applying ${room.timeoutAction}`
+  );
+
+  stopTurnClock(room);
+  emitToRoom(room, "turnTimedOut", {
+    playerIndex,
+    action: room.timeoutAction,
+  });
+
+  if (room.timeoutAction === TIMEOUT_ACTIONS.PASS) {
+    passTurn(room);
+    return;
+  }
+
+  // Auto-play the highest card as a High Card attack
+  const highestCard = currentPlayer.hand.reduce(
+    (best, card) =>
+      !best || getCardValue(card) > getCardValue(best) ? card : best,
+    null
+  );
+  if (!highestCard) {
+    passTurn(room);
+    return;
+  }
+
+  selectCards(room, [highestCard.id]);
+  const error = playHand(room, getDefaultTarget(room, playerIndex));
+  if (error) {
+    // The turn has to move on, whatever kept the card from being played
+    console.log(`⚠️ Timeout play for ${currentPlayer.name} refused: ${error}`);
+    passTurn(room);
+  }
+}
+
+// Swaps the current player's cards marked for discard for new ones from their
+// deck, the first phase of a turn. The selected hand is kept for the attack.
+// Returns an error message if the deck cannot cover the discard.
+function discardCards(room) {
+  const playerIndex = room.currentPlayer;
+  const currentPlayer = room.players[playerIndex];
+  const markedCards = currentPlayer.hand.filter((c) => c.markedForDiscard);
+
+  const overlapError = checkSelections(currentPlayer);
+  if (overlapError) return overlapError;
+
+  console.log(
+    `🗑️ Player ${currentPlayer.name} discarding ${markedCards.length} cards`
+  );
+
+  // Ensure we have enough cards in deck before discarding
+  if (
+    !ensureDeckHasCards(
+      currentPlayer.deck,
+      currentPlayer.discardPile,
+      markedCards.length,
+      roomRngs.get(room.id)
+    )
+  ) {
+    return "Not enough cards available to complete discard";
+  }
+
+  // Remove marked cards from hand, the selected hand stays
+  currentPlayer.hand = currentPlayer.hand.filter((c) => !c.markedForDiscard);
+
+  // Add discarded cards to player's discard pile
+  addToDiscardPile(currentPlayer.discardPile, markedCards);
+
+  // Draw new cards to replace discarded ones
+  const newCards = currentPlayer.deck
+    .splice(0, markedCards.length)
+    .map((card) => ({
+      ...card,
+      selected: false,
+      markedForDiscard: false,
+    }));
+
+  currentPlayer.hand.push(...newCards);
+  spendDiscardToken(currentPlayer, room.rules.discards);
+
+  recordMatchEvent(room, {
+    seat: playerIndex,
+    type: "discard",
+    cards: markedCards.length,
+  });
+  recordReplayStep(room, {
+    seat: playerIndex,
+    type: "discardCards",
+    cardIds: markedCards.map((card) => card.id),
+    drawnCardIds: newCards.map((card) => card.id),
+  });
+
+  console.log(
+    `✅ Player ${currentPlayer.name} now has ${currentPlayer.hand.length} cards`
+  );
+
+  broadcastSnapshot(room);
+  return null;
+}
+
+// Team games: the current player hands one card from their hand to their
+// teammate and draws a replacement, once per turn. Returns an error message
+// if the pass is not allowed.
+function passCard(room, cardId) {
+  const playerIndex = room.currentPlayer;
+  const currentPlayer = room.players[playerIndex];
+  const teammateIndex = getTeammateSeat(room, playerIndex);
+  const teammate = room.players[teammateIndex];
+
+  if (!teammate || teammate.eliminated) {
+    return "You have no teammate to pass to";
+  }
+  if (currentPlayer.passedCardOnTurn === room.turn) {
+    return "You already passed a card this turn";
+  }
+  if (teammate.hand.length >= room.rules.handSize + MAX_PASSED_CARDS) {
+    return `${teammate.name}'s hand is full`;
+  }
+  const card = currentPlayer.hand.find((c) => c.id === cardId);
+  if (!card) {
+    return "Card not found";
+  }
+  if (
+    !ensureDeckHasCards(
+      currentPlayer.deck,
+      currentPlayer.discardPile,
+      1,
+      roomRngs.get(room.id)
+    )
+  ) {
+    return "Not enough cards available to draw a replacement";
+  }
+
+  currentPlayer.hand = currentPlayer.hand.filter((c) => c !== card);
+  currentPlayer.selectedCards = currentPlayer.hand.filter((c) => c.selected);
+  teammate.hand.push({ ...card, selected: false, markedForDiscard: false });
+
+  const newCards = currentPlayer.deck.splice(0, 1).map((drawn) => ({
+    ...drawn,
+    selected: false,
+    markedForDiscard: false,
+  }));
+  currentPlayer.hand.push(...newCards);
+  currentPlayer.passedCardOnTurn = room.turn;
+
+  console.log(`🤝 ${currentPlayer.name} passed a card to ${teammate.name}`);
+  recordReplayStep(room, {
+    seat: playerIndex,
+    targetSeat: teammateIndex,
+    type: "passCard",
+    cardIds: [card.id],
+    drawnCardIds: newCards.map((drawn) => drawn.id),
+  });
+
+  emitToRoom(room, "cardPassed", {
+    playerIndex,
+    targetIndex: teammateIndex,
+  });
+  broadcastSnapshot(room);
+  return null;
+}
+
+// Predictions: the waiting player guesses the attacker's next hand type. The
+// guess stays sealed, the room only learns its commitment until the attack.
+function makePrediction(room, playerIndex, prediction) {
+  const currentPlayer = room.players[playerIndex];
+  currentPlayer.prediction = prediction;
+  currentPlayer.predictionSeal = sealPrediction(prediction);
+
+  console.log(`🔮 ${currentPlayer.name} predicted: ${prediction}`);
+  recordMatchEvent(room, { seat: playerIndex, type: "prediction", prediction });
+  recordReplayStep(room, {
+    seat: playerIndex,
+    type: "makePrediction",
+    prediction,
+  });
+
+  emitToRoom(room, "predictionMade", {
+    playerIndex,
+    commitment: currentPlayer.predictionSeal.commitment,
+  });
+  broadcastSnapshot(room);
+}
+
+// Parries: a player waiting on an opponent's turn sets cards aside face down.
+// cardIds can include the cards of the current parry, the rest of it goes
+// back to the hand, and an empty list takes the whole parry back. Returns an
+// error message if the cards are not a playable hand.
+function setParry(room, playerIndex, cardIds) {
+  const player = room.players[playerIndex];
+  const available = [...player.hand, ...player.parryCards];
+  const cards = cardIds.map((cardId) =>
+    available.find((card) => card.id === cardId)
+  );
+
+  if (cards.some((card) => !card) || new Set(cardIds).size !== cardIds.length) {
+    return "Card not found";
+  }
+  if (cards.length > 0) {
+    const validation = validateHand(cards);
+    if (!validation.valid) return validation.error;
+  }
+
+  player.hand = available
+    .filter((card) => !cardIds.includes(card.id))
+    .map((card) => ({ ...card, selected: false }));
+  player.selectedCards = [];
+  player.parryCards = cards.map((card) => ({ ...card, selected: false }));
+
+  console.log(`🤺 ${player.name} set a parry of ${cards.length} cards`);
+  recordReplayStep(room, {
+    seat: playerIndex,
+    type: "setParry",
+    cardIds,
+  });
+
+  emitToRoom(room, "parrySet", { playerIndex, cards: cards.length });
+  broadcastSnapshot(room);
+  return null;
+}
+
+// Reveals the target's parry against an attack. A parry of the same hand type
+// lets only part of the damage through, a stronger one stops all of it and
+// sends part back to the attacker, a weaker one does nothing. The parry is
+// used up either way and the target draws replacements. Returns null if the
+// target had no parry set.
+function resolveParry(room, targetIndex, handResult, damage) {
+  const target = room.players[targetIndex];
+  const { parry: rules } = room.rules;
+  if (!rules || !target.parryCards || target.parryCards.length === 0) {
+    return null;
+  }
+
+  const cards = target.parryCards;
+  const parryType = evaluateHand(cards).type;
+  // HAND_TYPES runs from strongest to weakest
+  const strength =
+    HAND_TYPES.indexOf(handResult.type) - HAND_TYPES.indexOf(parryType);
+
+  let outcome = "failed";
+  let negated = 0;
+  let reflected = 0;
+  if (strength > 0) {
+    outcome = "reflected";
+    negated = damage;
+    reflected = Math.floor(damage * rules.reflectMultiplier);
+  } else if (strength === 0) {
+    outcome = "matched";
+    negated = damage - Math.floor(damage * rules.matchMultiplier);
+  }
+  console.log(
+    `🤺 ${target.name} revealed a ${parryType} parry against ${handResult.type}: ${outcome}, ${negated} negated, ${reflected} reflected`
+  );
+
+  target.parryCards = [];
+  addToDiscardPile(target.discardPile, cards);
+  if (
+    !ensureDeckHasCards(
+      target.deck,
+      target.discardPile,
+      cards.length,
+      roomRngs.get(room.id)
+    )
+  ) {
+    console.log("⚠️ Warning: Not enough cards to replace the parry");
+  }
+  target.hand.push(
+    ...target.deck.splice(0, cards.length).map((card) => ({
+      ...card,
+      selected: false,
+      markedForDiscard: false,
+    }))
+  );
+
+  return {
+    playerIndex: targetIndex,
+    cards,
+    handType: parryType,
+    outcome,
+    negated,
+    reflected,
+  };
+}
+
+// Turns the current player's selected cards into armor, in modes with armor.
+// Returns the validation error if the selection is not a playable hand.
+function buildArmor(room) {
+  const playerIndex = room.currentPlayer;
+  const currentPlayer = room.players[playerIndex];
+  const { rules } = room;
+
+  const overlapError = checkSelections(currentPlayer);
+  if (overlapError) return overlapError;
+
+  const validation = validateHand(currentPlayer.selectedCards);
+  if (!validation.valid) {
+    return validation.error;
+  }
+
+  // Calculate armor based on hand type
+  const handResult = evaluateHand(currentPlayer.selectedCards);
+  const armorGained = getArmorValue(handResult.type);
+
+  const oldArmor = currentPlayer.armor;
+  currentPlayer.armor = Math.min(
+    rules.armor.cap,
+    currentPlayer.armor + armorGained
+  );
+  const actualArmorGained = currentPlayer.armor - oldArmor;
+  shareTeamPool(room, playerIndex);
+
+  console.log(
+    `🛡️ ${currentPlayer.name} built ${actualArmorGained} armor with ${handResult.type} (Total: ${currentPlayer.armor}/${rules.armor.cap})`
+  );
+
+  recordMatchEvent(room, {
+    seat: playerIndex,
+    type: "armor",
+    handType: handResult.type,
+    armor: actualArmorGained,
+    cards: currentPlayer.selectedCards.length,
+  });
+
+  // Handle played cards - add to player's discard pile
+  const playedCards = currentPlayer.hand.filter((c) => c.selected);
+  currentPlayer.hand = currentPlayer.hand.filter((c) => !c.selected);
+  currentPlayer.selectedCards = [];
+
+  // Add played cards to player's discard pile
+  addToDiscardPile(currentPlayer.discardPile, playedCards);
+
+  refillHand(room, currentPlayer, "armor", playedCards.length);
+
+  recordReplayStep(room, {
+    seat: playerIndex,
+    type: "buildArmor",
+    cardIds: playedCards.map((card) => card.id),
+    handResult,
+    armorGained: actualArmorGained,
+  });
+
+  switchTurn(room);
+
+  emitToRoom(room, "armorBuilt", {
+    playerIndex,
+    armorGained: actualArmorGained,
+    handResult,
+  });
+  beginTurn(room);
+  broadcastSnapshot(room);
+  return null;
+}
+
+// Deals fresh decks for a rematch in the same room
+function restartGame(room) {
+  const { rules } = room;
+
+  // A chosen seed deals the same game again, otherwise every rematch is new
+  if (!room.customSeed) {
+    room.seed = randomSeed();
+  }
+  const rng = createRng(room.seed);
+  roomRngs.set(room.id, rng);
+  console.log(`🌱 Deck seed for room ${room.id}: ${room.seed}`);
+
+  room.players.forEach((player, index) => {
+    player.health = rules.startingHealth;
+    player.maxHealth = rules.startingHealth;
+    player.deck = createDeck(rng);
+    player.hand = player.deck.splice(0, rules.handSize);
+    player.selectedCards = [];
+    resetDiscardTokens(player, rules.discards);
+    player.discardPile = [];
+    player.timeBank = room.turnClock ? room.turnClock.bankSeconds * 1000 : 0;
+    player.eliminated = false;
+    player.team = room.teams ? index % 2 : null;
+    player.passedCardOnTurn = null;
+
+    if (rules.armor || rules.predictions || rules.parry) {
+      player.armor = 0;
+      player.prediction = null;
+      player.predictionSeal = null;
+      player.parryCards = [];
+    }
+  });
+
+  // Rematches play the next game of the series, or a new series once the
+  // last one was decided
+  if (room.series) {
+    if (getSeriesWinner(room) === -1) {
+      room.series.game++;
+    } else {
+      room.players.forEach((player) => {
+        player.seriesWins = 0;
+      });
+      room.series.game = 1;
+    }
+  }
+
+  room.gameState = "playing";
+  room.currentPlayer = chooseFirstPlayer(room, rng);
+  console.log(
+    `🎲 Rematch: ${room.players[room.currentPlayer].name} goes first!`
+  );
+  room.turn = 1;
+  room.lastPlayedHand = null;
+  startMatchRecord(room);
+
+  room.rematchVotes = [];
+  emitToRoom(room, "rematchAccepted", { roomId: room.id });
+  io.emit("roomsUpdated");
+  beginTurn(room);
+  broadcastSnapshot(room);
+  console.log(`🎮 Rematch started in room ${room.id}`);
+}
+
+// Counts a player's vote for a rematch and starts it once every human in a
+// full room agreed, bots never turn one down. Returns true if it started.
+function voteForRematch(room, player) {
+  if (!room.rematchVotes.includes(player.id)) room.rematchVotes.push(player.id);
+
+  const humans = room.players.filter((p) => !p.isBot);
+  if (
+    room.players.length < room.maxPlayers ||
+    !humans.every((p) => room.rematchVotes.includes(p.id))
+  ) {
+    return false;
+  }
+  restartGame(room);
+  return true;
+}
+
+// Updates both ratings after a ranked game,
+// returns playerId -> { before, after } or null for unranked rooms
+function applyRankedResult(room, winnerIndex) {
+  if (!room.ranked) return null;
+
+  const winner = room.players[winnerIndex];
+  const loser = room.players[1 - winnerIndex];
+  const result = recordRatedGame(room.gameMode, winner.name, loser.name);
+  if (!result) return null;
+
+  console.log(
+    `📈 Ranked ${room.gameMode}: ${winner.name} ${result.winner.before} → ${result.winner.after}, ${loser.name} ${result.loser.before} → ${result.loser.after}`
+  );
+
+  return {
+    [winner.id]: result.winner,
+    [loser.id]: result.loser,
+  };
+}
+
+// Seats two queued players in a new ranked room and starts the game
+function startRankedMatch({ gameMode, entries }) {
+  const roomId = uuidv4();
+  const matchedPlayers = entries.map((entry) => entry.player);
+
+  const room = {
+    id: roomId,
+    name: `Ranked ${getGameMode(gameMode).name}`,
+    gameMode,
+    // Ranked games are always played by the mode's standard rules
+    rules: getGameMode(gameMode),
+    ruleOverrides: {},
+    players: matchedPlayers,
+    maxPlayers: 2,
+    series: null,
+    rematchVotes: [],
+    gameState: "waiting",
+    currentPlayer: 0,
+    turn: 1,
+    lastPlayedHand: null,
+    turnClock: { preset: RANKED_TURN_CLOCK, ...TURN_CLOCKS[RANKED_TURN_CLOCK] },
+    timeoutAction: TIMEOUT_ACTIONS.PLAY_HIGHEST,
+    seed: randomSeed(),
+    customSeed: false,
+    openHands: false,
+    spectators: [],
+    chat: [],
+    ranked: true,
+  };
+  rooms.set(roomId, room);
+
+  entries.forEach(({ player, rating }, index) => {
+    player.roomId = roomId;
+    const socket = io.sockets.sockets.get(player.id);
+    if (socket) socket.join(roomId);
+
+    const opponent = entries[1 - index];
+    io.to(player.id).emit("rankedMatchFound", {
+      roomId,
+      gameMode,
+      rating,
+      opponent: { name: opponent.player.name, rating: opponent.rating },
+    });
+  });
+
+  console.log(
+    `⚔️ Ranked ${gameMode} match: ${matchedPlayers[0].name} (${entries[0].rating}) vs ${matchedPlayers[1].name} (${entries[1].rating})`
+  );
+  io.emit("onlinePlayersUpdated");
+
+  setTimeout(() => {
+    startGame(roomId);
+  }, 500);
+}
+
+function runMatchmaking() {
+  findMatches().forEach(startRankedMatch);
+
+  getQueuedEntries().forEach(
+    ({ player, gameMode, rating, waitedMs, searchRange }) => {
+      io.to(player.id).emit("rankedQueueStatus", {
+        gameMode,
+        rating,
+        waitedMs,
+        searchRange,
+      });
+    }
+  );
+}
+
+setInterval(runMatchmaking, MATCHMAKING_INTERVAL_MS);
+
+// What the lobby shows next to a name
+function getPresence(player) {
+  if (player.roomId) return "inGame";
+  if (player.spectatingRoomId) return "spectating";
+  return "idle";
+}
+
+// An accepted challenge starts a duel between the two right away, by the
+// mode's standard rules and without a turn clock like a fresh lobby room
+function startChallengeMatch(challenge) {
+  const { challenger, opponent, gameMode } = challenge;
+  const roomId = uuidv4();
+  const room = {
+    id: roomId,
+    name: `${challenger.name} vs ${opponent.name}`,
+    gameMode,
+    rules: getGameMode(gameMode),
+    ruleOverrides: {},
+    players: [challenger, opponent],
+    maxPlayers: 2,
+    series: null,
+    rematchVotes: [],
+    gameState: "waiting",
+    currentPlayer: 0,
+    turn: 1,
+    lastPlayedHand: null,
+    turnClock: null,
+    timeoutAction: TIMEOUT_ACTIONS.PLAY_HIGHEST,
+    seed: randomSeed(),
+    customSeed: false,
+    openHands: false,
+    spectators: [],
+    chat: [],
+    isPrivate: false,
+    inviteCode: createInvite(roomId),
+    passwordHash: null,
+  };
+  rooms.set(roomId, room);
+
+  room.players.forEach((player) => {
+    if (leaveQueue(player)) io.to(player.id).emit("rankedQueueLeft");
+    player.roomId = roomId;
+    io.sockets.sockets.get(player.id)?.join(roomId);
+    io.to(player.id).emit("challengeAccepted", {
+      challengeId: challenge.id,
+      roomId,
+      gameMode,
+    });
+  });
+
+  console.log(
+    `🤺 ${opponent.name} accepted ${challenger.name}'s ${gameMode} challenge`
+  );
+  io.emit("roomsUpdated");
+  io.emit("onlinePlayersUpdated");
+
+  setTimeout(() => {
+    startGame(roomId);
+  }, 500);
+}
+
+// A tournament pairing gets a room of its own, kept out of the lobby and
+// played by the mode's standard rules like a ranked game
+function createTournamentRoom(tournament, match) {
+  const roomId = uuidv4();
+  const room = {
+    id: roomId,
+    name: `${tournament.name} - Round ${match.round}`,
+    gameMode: tournament.gameMode,
+    rules: getGameMode(tournament.gameMode),
+    ruleOverrides: {},
+    players: [],
+    maxPlayers: 2,
+    series:
+      tournament.bestOf > 1
+        ? { bestOf: tournament.bestOf, game: 1, firstPlayer: 0 }
+        : null,
+    rematchVotes: [],
+    gameState: "waiting",
+    currentPlayer: 0,
+    turn: 1,
+    lastPlayedHand: null,
+    turnClock: {
+      preset: TOURNAMENT_TURN_CLOCK,
+      ...TURN_CLOCKS[TOURNAMENT_TURN_CLOCK],
+    },
+    timeoutAction: TIMEOUT_ACTIONS.PLAY_HIGHEST,
+    seed: randomSeed(),
+    customSeed: false,
+    openHands: false,
+    spectators: [],
+    chat: [],
+    tournament: {
+      id: tournament.id,
+      matchId: match.id,
+      round: match.round,
+      entrants: match.entrants,
+      decided: false,
+    },
+  };
+  rooms.set(roomId, room);
+  match.roomId = roomId;
+  console.log(
+    `🏟️ Room for ${match.entrants.join(" vs ")} in tournament ${
+      tournament.name
+    }`
+  );
+  return room;
+}
+
+// Ties an entrant's name to the session of the player who registered it
+function bindEntrant(tournament, player) {
+  if (!tournamentEntrants.has(tournament)) {
+    tournamentEntrants.set(tournament, new Map());
+  }
+  tournamentEntrants
+    .get(tournament)
+    .set(player.name.toLowerCase(), sessionTokens.get(player));
+}
+
+// True if the player is the entrant of that name, not just named like them
+function isEntrant(tournament, name, player) {
+  if (!name || name.toLowerCase() !== player.name.toLowerCase()) return false;
+  const token = tournamentEntrants.get(tournament)?.get(name.toLowerCase());
+  return Boolean(token) && token === sessionTokens.get(player);
+}
+
+// Puts an entrant in their match room, the game starts once both are seated.
+// Returns what keeps the player out, or null.
+function seatTournamentPlayer(room, player) {
+  if (room.players.length >= room.maxPlayers) return "This match is full";
+
+  // Each entrant holds one seat
+  const tournament = getTournament(room.tournament.id);
+  if (
+    !tournament ||
+    !room.tournament.entrants.some((name) =>
+      isEntrant(tournament, name, player)
+    ) ||
+    room.players.includes(player)
+  ) {
+    return "You are not playing in this match";
+  }
+
+  if (leaveQueue(player)) io.to(player.id).emit("rankedQueueLeft");
+  room.players.push(player);
+  player.roomId = room.id;
+  io.sockets.sockets.get(player.id)?.join(room.id);
+  io.to(player.id).emit("tournamentMatchReady", {
+    roomId: room.id,
+    gameMode: room.gameMode,
+    tournamentId: room.tournament.id,
+  });
+  broadcastSnapshot(room);
+  io.emit("onlinePlayersUpdated");
+
+  if (room.players.length === room.maxPlayers) {
+    setTimeout(() => {
+      startGame(room.id);
+    }, 500);
+  }
+  return null;
+}
+
+// Opens a room per pairing and seats the entrants who are online and not
+// busy, everyone else joins from the lobby with joinTournamentMatch
+function openTournamentMatches(tournament, matches) {
+  matches.forEach((match) => {
+    const room = createTournamentRoom(tournament, match);
+    match.entrants.forEach((name) => {
+      const player = [...players.values()].find(
+        (p) =>
+          isEntrant(tournament, name, p) && !p.roomId && !p.spectatingRoomId
+      );
+      if (player) seatTournamentPlayer(room, player);
+    });
+  });
+}
+
+// Records the winner of a tournament room's match and opens the next round's
+// rooms once the round is complete
+function reportTournamentResult(room, winnerName) {
+  if (room.tournament.decided) return;
+  room.tournament.decided = true;
+
+  const tournament = getTournament(room.tournament.id);
+  if (!tournament) return;
+  const error = recordResult(tournament, room.tournament.matchId, winnerName);
+  if (error) {
+    console.log(`⚠️ Tournament result not recorded: ${error}`);
+    return;
+  }
+  console.log(`🏟️ ${winnerName} won their match in ${tournament.name}`);
+
+  openTournamentMatches(tournament, advanceTournament(tournament));
+  if (tournament.status === "finished") {
+    console.log(
+      `🏆 ${tournament.winner} won the tournament ${tournament.name}`
+    );
+  }
+  io.emit("tournamentsUpdated");
+}
+
+// What clients may know about a room outside the game snapshot. Never the
+// room itself, it holds the deck seed, the password hash and every hand.
+function getRoomSummary(room) {
+  return {
+    id: room.id,
+    name: room.name,
+    players: room.players.length,
+    maxPlayers: room.maxPlayers,
+    teams: Boolean(room.teams),
+    bestOf: room.series ? room.series.bestOf : 1,
+    gameMode: room.gameMode,
+    turnClock: room.turnClock ? room.turnClock.preset : "off",
+    ruleOverrides: room.ruleOverrides,
+    hasPassword: Boolean(room.passwordHash),
+  };
+}
+
+// What the lobby lists, the bracket page gets the whole tournament
+function getTournamentSummary(tournament) {
+  return {
+    id: tournament.id,
+    name: tournament.name,
+    format: tournament.format,
+    gameMode: tournament.gameMode,
+    bestOf: tournament.bestOf,
+    organizer: tournament.organizer,
+    status: tournament.status,
+    entrants: tournament.entrants,
+    round: tournament.rounds.length,
+    totalRounds: tournament.totalRounds,
+    winner: tournament.winner,
+    // Pairings of the current round still to be played
+    pendingMatches: getCurrentRound(tournament)
+      .filter((match) => !match.winner)
+      .map((match) => ({ id: match.id, entrants: match.entrants })),
+  };
+}
+
+// The whole game as one viewer sees it, clients render from nothing else.
+// Players only get their own hand, spectators (viewerId null) get every hand
+// in open-hand rooms and none otherwise.
+function getGameSnapshot(room, viewerId) {
+  const viewerIndex = room.players.findIndex((p) => p.id === viewerId);
+  // Knocked out players watch the rest of the game like spectators
+  const spectating =
+    viewerIndex === -1 || Boolean(room.players[viewerIndex].eliminated);
+  const seriesWinner = getSeriesWinner(room);
+  // Teammates play with their hands open to each other
+  const canSeeHand = (index) =>
+    index === viewerIndex ||
+    (spectating && Boolean(room.openHands)) ||
+    (!spectating && getTeam(room, index) === getTeam(room, viewerIndex));
+
+  return {
+    version: snapshotVersions.get(room.id) || 0,
+    viewerIndex,
+    id: room.id,
+    name: room.name,
+    gameMode: room.gameMode,
+    gameState: room.gameState,
+    currentPlayer: room.currentPlayer,
+    turn: room.turn,
+    lastPlayedHand: room.lastPlayedHand,
+    winner:
+      room.gameState === "ended"
+        ? room.players.findIndex((p) => !p.eliminated)
+        : null,
+    maxPlayers: room.maxPlayers,
+    teams: Boolean(room.teams),
+    series: room.series
+      ? {
+          bestOf: room.series.bestOf,
+          game: room.series.game,
+          wins: room.players.map((p) => p.seriesWins || 0),
+          winner: seriesWinner === -1 ? null : seriesWinner,
+        }
+      : null,
+    turnClock: getTurnClockState(room),
+    openHands: Boolean(room.openHands),
+    ranked: Boolean(room.ranked),
+    tournament: room.tournament
+      ? {
+          id: room.tournament.id,
+          round: room.tournament.round,
+          decided: room.tournament.decided,
+        }
+      : null,
+    isPrivate: Boolean(room.isPrivate),
+    // Only seated players can hand out the invite
+    inviteCode: viewerIndex === -1 ? null : room.inviteCode || null,
+    rules: room.rules,
+    ruleOverrides: room.ruleOverrides,
+    spectators: room.spectators.map((spectator) => spectator.name),
+    players: room.players.map((p, index) => ({
+      id: p.id,
+      name: p.name,
+      connected: p.connected !== false,
+      health: p.health,
+      maxHealth: p.maxHealth,
+      handSize: p.hand ? p.hand.length : 0,
+      discardTokens: p.discardTokens || 0,
+      maxDiscardTokens: room.rules.discards.maxTokens,
+      // Turns until the next token, null while none is on its way
+      discardRegenIn: p.discardRegenIn || null,
+      maxCardsPerDiscard: room.rules.discards.maxCards,
+      discardCooldown: p.discardCooldown || 0,
+      armor: p.armor || 0,
+      // Predictions are sealed, only those who see the hand see the guess
+      prediction: canSeeHand(index) ? p.prediction || null : null,
+      predictionCommitment: p.predictionSeal
+        ? p.predictionSeal.commitment
+        : null,
+      eliminated: Boolean(p.eliminated),
+      team: p.team ?? null,
+      passedCard: p.passedCardOnTurn === room.turn,
+      // Parries are face down, everyone sees how many cards are set aside
+      parrySize: p.parryCards ? p.parryCards.length : 0,
+      ...(canSeeHand(index)
+        ? { hand: p.hand || [], parry: p.parryCards || [] }
+        : {}),
+    })),
+  };
+}
+
+// Bumps the room's version and sends every player and the spectators
+// their own snapshot of it
+function broadcastSnapshot(room) {
+  snapshotVersions.set(room.id, (snapshotVersions.get(room.id) || 0) + 1);
+
+  room.players.forEach((p) => {
+    if (p.isBot || p.left) return;
+    io.to(p.id).emit("gameSnapshot", getGameSnapshot(room, p.id));
+  });
+  io.to(getSpectatorChannel(room.id)).emit(
+    "gameSnapshot",
+    getGameSnapshot(room, null)
+  );
+}
+
+function removeSpectator(player) {
+  const room = rooms.get(player.spectatingRoomId);
+  player.spectatingRoomId = null;
+  if (!room) return;
+
+  room.spectators = room.spectators.filter((s) => s.id !== player.id);
+  broadcastSnapshot(room);
+  io.emit("onlinePlayersUpdated");
+}
+
+// Someone leaving a free-for-all or team game in progress forfeits. Their
+// seat stays, marked as left, so the turn order and the match record keep
+// their seat numbers. A teammate left behind plays on with the shared pool.
+function vacateSeat(room, seat) {
+  const player = room.players[seat];
+  const wasPlaying = !player.eliminated;
+  room.players[seat] = {
+    ...player,
+    connected: false,
+    left: true,
+    eliminated: true,
+    health: room.teams ? player.health : 0,
+  };
+
+  if (wasPlaying) {
+    emitToRoom(room, "playerEliminated", { playerIndex: seat, by: null });
+    const survivors = room.players
+      .map((_, index) => index)
+      .filter((index) => !room.players[index].eliminated);
+    if (
+      survivors.every(
+        (index) => getTeam(room, index) === getTeam(room, survivors[0])
+      )
+    ) {
+      endGame(room, survivors[0]);
+      return;
+    }
+    if (room.currentPlayer === seat) {
+      switchTurn(room);
+      beginTurn(room);
+    }
+  }
+  broadcastSnapshot(room);
+}
+
+function removePlayerFromRoom(player) {
+  const room = rooms.get(player.roomId);
+  const othersStay = (p) => p !== player && !p.isBot && !p.left;
+  if (
+    room &&
+    room.gameState === "playing" &&
+    room.maxPlayers > 2 &&
+    room.players.some(othersStay)
+  ) {
+    console.log(`🏳️ ${player.name} forfeited in room ${room.name}`);
+    vacateSeat(room, room.players.indexOf(player));
+    io.emit("roomsUpdated");
+  } else if (room) {
+    stopTurnClock(room);
+    // A game cut short by a player leaving has no winner to record
+    discardMatchRecord(room);
+
+    // Leaving a ranked or tournament game in progress forfeits it. So does
+    // leaving a tournament series between games, or a player who is behind
+    // could come back to a fresh series.
+    const ratingChanges =
+      room.gameState === "playing"
+        ? applyRankedResult(room, 1 - room.players.indexOf(player))
+        : null;
+    const seriesUndecided =
+      room.series && room.gameState === "ended" && getSeriesWinner(room) === -1;
+    if (
+      room.tournament &&
+      !room.tournament.decided &&
+      (room.gameState === "playing" || seriesUndecided)
+    ) {
+      reportTournamentResult(
+        room,
+        room.players[1 - room.players.indexOf(player)].name
+      );
+    }
+    room.players = room.players.filter((p) => p !== player);
+
+    // Nobody is left to play against a bot
+    if (room.players.every((p) => p.isBot || p.left)) {
+      clearTimeout(botTimers.get(room.id));
+      botTimers.delete(room.id);
+      roomRngs.delete(room.id);
+      snapshotVersions.delete(room.id);
+      removeInvite(room.inviteCode);
+      rooms.delete(player.roomId);
+      io.to(getSpectatorChannel(room.id)).emit("roomClosed");
+      io.in(getSpectatorChannel(room.id)).socketsLeave(
+        getSpectatorChannel(room.id)
+      );
+      room.spectators.forEach((spectator) => {
+        const spectatingPlayer = players.get(spectator.id);
+        if (spectatingPlayer) spectatingPlayer.spectatingRoomId = null;
+      });
+    } else {
+      emitToRoom(room, "playerLeft", {
+        playerId: player.id,
+        playerName: player.name,
+        ratingChanges,
+      });
+      broadcastSnapshot(room);
+    }
+
+    io.emit("roomsUpdated");
+  }
+
+  player.roomId = null;
+}
+
+// Game modes the lobby offers
+app.get("/modes", (req, res) => {
+  res.json({ modes: listGameModes(), ruleOverrides: RULE_OVERRIDES });
+});
+
+// Tournament brackets
+app.get("/tournaments", (req, res) => {
+  res.json(listTournaments().map(getTournamentSummary));
+});
+
+app.get("/tournaments/:id", (req, res) => {
+  const tournament = getTournament(req.params.id);
+  if (!tournament) {
+    res.status(404).json({ error: "Tournament not found" });
+    return;
+  }
+  res.json({
+    ...tournament,
+    standings: tournament.format === "swiss" ? getStandings(tournament) : null,
+  });
+});
+
+// Match history
+app.get("/profiles/:name", (req, res) => {
+  res.json({
+    ...getPlayerProfile(req.params.name),
+    ratings: getPlayerRatings(req.params.name),
+  });
+});
+
+app.get("/leaderboard/:gameMode", (req, res) => {
+  if (!getGameMode(req.params.gameMode)) {
+    res.status(404).json({ error: "Unknown game mode" });
+    return;
+  }
+  res.json(getLeaderboard(req.params.gameMode));
+});
+
+app.get("/matches/:id/replay", (req, res) => {
+  const replay = getReplay(req.params.id);
+  if (!replay) {
+    res.status(404).json({ error: "Replay not found" });
+    return;
+  }
+  res.json(replay);
+});
+
+app.get("/matches/:id", (req, res) => {
+  const match = getMatch(req.params.id);
+  if (!match) {
+    res.status(404).json({ error: "Match not found" });
+    return;
+  }
+  res.json(match);
+});
+
+// Socket.IO connection handling
+io.on("connection", (socket) => {
+  console.log("User connected:", socket.id);
+
+  // Token of the session this socket belongs to, never sent to other players
+  let sessionToken = null;
+
+  const getSecurityDetails = () => ({
+    socketId: socket.id,
+    player: players.get(socket.id)?.name ?? null,
+  });
+
+  // Every event has to pass the rate limit and its schema, see validation.js,
+  // before its handler runs. Anything else is dropped and logged.
+  const allowEvent = createRateLimiter();
+  let floodReported = false;
+  socket.use(([event, ...args], next) => {
+    if (!allowEvent()) {
+      // One report per flood, the rest of it is dropped quietly
+      if (!floodReported) {
+        floodReported = true;
+        logSecurityEvent("rateLimited", { ...getSecurityDetails(), event });
+        socket.emit("error", "Slow down, too many actions at once");
+      }
+      return;
+    }
+    floodReported = false;
+
+    const error = checkEvent(event, args);
+    if (error) {
+      logSecurityEvent("invalidPayload", {
+        ...getSecurityDetails(),
+        event,
+        error,
+      });
+      socket.emit("error", error);
+      return;
+    }
+    next();
+  });
+
+  // Moves the game client never makes on its own, a sign of a modified one
+  const reportSuspiciousAction = (event, reason) => {
+    logSecurityEvent("suspiciousAction", {
+      ...getSecurityDetails(),
+      event,
+      reason,
+    });
+  };
+
+  // Names other players see go through the length rules and the profanity
+  // filter. Returns true after telling the player why the name was refused.
+  const rejectName = (name, maxLength, label) => {
+    const error = checkName(name, maxLength, label);
+    if (error) {
+      socket.emit("error", error);
+      return true;
+    }
+    if (containsBlockedWord(name)) {
+      logSecurityEvent("blockedName", { ...getSecurityDetails(), name });
+      socket.emit("error", "That name isn't allowed");
+      return true;
+    }
+    return false;
+  };
+
+  const stopSpectating = (player) => {
+    if (!player.spectatingRoomId) return;
+    socket.leave(getSpectatorChannel(player.spectatingRoomId));
+    removeSpectator(player);
+  };
+
+  socket.on("setPlayerName", (requestedName) => {
+    if (rejectName(requestedName, MAX_PLAYER_NAME_LENGTH, "Names")) return;
+    const name = requestedName.trim();
+
+    const player = { id: socket.id, name, roomId: null, connected: true };
+    // A new name keeps the session, and with it the tournaments it organizes
+    sessionToken = sessionToken || uuidv4();
+    sessions.set(sessionToken, { player, disconnectTimer: null });
+    sessionTokens.set(player, sessionToken);
+    players.set(socket.id, player);
+
+    socket.emit("playerSet", { id: socket.id, name, sessionToken });
+    console.log(`Player ${name} (${socket.id}) set name`);
+    io.emit("onlinePlayersUpdated");
+  });
+
+  socket.on("resumeSession", (token) => {
+    const session = sessions.get(token);
+    if (!session) {
+      socket.emit("sessionExpired");
+      return;
+    }
+
+    clearTimeout(session.disconnectTimer);
+    session.disconnectTimer = null;
+
+    const { player } = session;
+    const previousId = player.id;
+
+    // The old socket may not have timed out yet, it no longer owns the player
+    if (previousId !== socket.id) {
+      players.delete(previousId);
+      io.sockets.sockets.get(previousId)?.disconnect(true);
+    }
+
+    player.id = socket.id;
+    player.connected = true;
+    players.set(socket.id, player);
+    sessionToken = token;
+
+    socket.emit("playerSet", {
+      id: socket.id,
+      name: player.name,
+      sessionToken,
+    });
+    console.log(
+      `🔌 Player ${player.name} resumed session (${previousId} -> ${socket.id})`
+    );
+    io.emit("onlinePlayersUpdated");
+
+    const room = rooms.get(player.roomId);
+    if (room) {
+      socket.join(room.id);
+      socket.emit("sessionResumed", {
+        roomId: room.id,
+        gameMode: room.gameMode,
+      });
+      socket
+        .to(room.id)
+        .to(getSpectatorChannel(room.id))
+        .emit("playerReconnected", {
+          previousId,
+          playerId: socket.id,
+        });
+      broadcastSnapshot(room);
+    }
+  });
+
+  // Sent on (re)entering a room and whenever a client notices it missed a
+  // snapshot version, answers with the current state without changing it
+  socket.on("requestSnapshot", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
+    if (!room || !player) return;
+
+    const isPlayer = room.players.some((p) => p.id === socket.id);
+    if (!isPlayer && player.spectatingRoomId !== roomId) return;
+
+    socket.emit(
+      "gameSnapshot",
+      getGameSnapshot(room, isPlayer ? socket.id : null)
+    );
+  });
+
+  socket.on("getRooms", () => {
+    const availableRooms = Array.from(rooms.values())
+      .filter(
+        (room) =>
+          room.players.length < room.maxPlayers &&
+          !room.ranked &&
+          !room.tournament &&
+          !room.isPrivate
+      )
+      .map(getRoomSummary);
+    socket.emit("roomsList", availableRooms);
+  });
+
+  socket.on(
+    "createRoom",
+    ({
+      roomName,
+      gameMode = DEFAULT_GAME_MODE,
+      turnClock = "off",
+      timeoutAction = TIMEOUT_ACTIONS.PLAY_HIGHEST,
+      botDifficulty = null,
+      seed = null,
+      openHands = false,
+      rules: ruleOverrides = {},
+      private: isPrivate = false,
+      password = "",
+      maxPlayers = 2,
+      teams = false,
+      bestOf = 1,
+    }) => {
+      const roomId = uuidv4();
+      const player = players.get(socket.id);
+
+      if (!player) {
+        socket.emit("error", "Player not found");
+        return;
+      }
+
+      if (rejectName(roomName, MAX_ROOM_NAME_LENGTH, "Room names")) return;
+
+      const mode = getGameMode(gameMode);
+      if (!mode) {
+        socket.emit("error", "Unknown game mode");
+        return;
+      }
+
+      const rulesError = validateRuleOverrides(mode, ruleOverrides);
+      if (rulesError) {
+        socket.emit("error", rulesError);
+        return;
+      }
+
+      if (
+        !Number.isInteger(maxPlayers) ||
+        maxPlayers < 2 ||
+        maxPlayers > MAX_ROOM_PLAYERS
+      ) {
+        socket.emit("error", `Rooms seat 2 to ${MAX_ROOM_PLAYERS} players`);
+        return;
+      }
+
+      if (teams && maxPlayers !== TEAM_ROOM_PLAYERS) {
+        socket.emit(
+          "error",
+          `Team games need ${TEAM_ROOM_PLAYERS} players, two per team`
+        );
+        return;
+      }
+
+      if (!SERIES_LENGTHS.includes(bestOf)) {
+        socket.emit(
+          "error",
+          `Series can be best of ${SERIES_LENGTHS.join(", ")}`
+        );
+        return;
+      }
+
+      if (!Object.hasOwn(TURN_CLOCKS, turnClock)) {
+        socket.emit("error", "Unknown turn clock");
+        return;
+      }
+
+      if (!Object.values(TIMEOUT_ACTIONS).includes(timeoutAction)) {
+        socket.emit("error", "Unknown timeout action");
+        return;
+      }
+
+      if (
+        botDifficulty &&
+        !Object.values(BOT_DIFFICULTIES).includes(botDifficulty)
+      ) {
+        socket.emit("error", "Unknown bot difficulty");
+        return;
+      }
+
+      const customSeed = seed !== null && seed !== "";
+      if (customSeed && !ALLOW_CUSTOM_SEEDS) {
+        socket.emit("error", "Custom seeds are disabled on this server");
+        return;
+      }
+
+      if (customSeed && normalizeSeed(seed) === null) {
+        socket.emit("error", "Invalid seed");
+        return;
+      }
+
+      if (
+        typeof password !== "string" ||
+        password.length > MAX_PASSWORD_LENGTH
+      ) {
+        socket.emit(
+          "error",
+          `Room password must be at most ${MAX_PASSWORD_LENGTH} characters`
+        );
+        return;
+      }
+
+      const room = {
+        id: roomId,
+        name: roomName.trim(),
+        gameMode: gameMode,
+        rules: applyRuleOverrides(mode, ruleOverrides),
+        // Only what differs from the mode, shown to players before they join
+        ruleOverrides: getChangedRules(mode, ruleOverrides),
+        players: [player],
+        maxPlayers,
+        // Two teams of two, seats 0 and 2 against 1 and 3
+        teams: Boolean(teams),
+        // Rematches play on through the series, see restartGame
+        series: bestOf > 1 ? { bestOf, game: 1, firstPlayer: 0 } : null,
+        rematchVotes: [],
+        gameState: "waiting",
+        currentPlayer: 0,
+        turn: 1,
+        lastPlayedHand: null,
+        turnClock: TURN_CLOCKS[turnClock]
+          ? { preset: turnClock, ...TURN_CLOCKS[turnClock] }
+          : null,
+        timeoutAction,
+        seed: customSeed ? normalizeSeed(seed) : randomSeed(),
+        customSeed,
+        openHands: Boolean(openHands),
+        spectators: [],
+        chat: [],
+        // Private rooms are left out of the lobby and joined by invite only
+        isPrivate: Boolean(isPrivate),
+        inviteCode: createInvite(roomId),
+        passwordHash: password ? hashPassword(password) : null,
+      };
+
+      if (leaveQueue(player)) socket.emit("rankedQueueLeft");
+      stopSpectating(player);
+      rooms.set(roomId, room);
+      player.roomId = roomId;
+
+      socket.join(roomId);
+      socket.emit("roomCreated", { roomId, room: getRoomSummary(room) });
+      io.emit("roomsUpdated");
+
+      console.log(
+        `Room ${roomName} (${roomId}) created by ${player.name} - Mode: ${gameMode}`
+      );
+
+      // Single-player: bots take the other seats right away
+      if (botDifficulty) {
+        for (let number = 1; number < maxPlayers; number++) {
+          room.players.push(createBot(botDifficulty, roomId, number));
+        }
+        console.log(
+          `🤖 ${maxPlayers - 1} ${botDifficulty} bot(s) joined room ${roomName}`
+        );
+        setTimeout(() => {
+          startGame(roomId);
+        }, 500);
+      }
+    }
+  );
+
+  socket.on("getLiveRooms", () => {
+    const liveRooms = Array.from(rooms.values())
+      .filter((room) => room.gameState === "playing" && !room.isPrivate)
+      .map((room) => ({
+        id: room.id,
+        name: room.name,
+        gameMode: room.gameMode,
+        players: room.players.map((p) => p.name),
+        turn: room.turn,
+        spectators: room.spectators.length,
+        openHands: Boolean(room.openHands),
+        ranked: Boolean(room.ranked),
+      }));
+    socket.emit("liveRoomsList", liveRooms);
+  });
+
+  socket.on("spectateRoom", (roomId) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
+
+    if (!room) {
+      socket.emit("error", "Room not found");
+      return;
+    }
+
+    if (!player) {
+      socket.emit("error", "Player not found");
+      return;
+    }
+
+    if (player.roomId) {
+      socket.emit("error", "Leave your room before watching another game");
+      return;
+    }
+
+    if (room.isPrivate) {
+      socket.emit("error", "This room is private");
+      return;
+    }
+
+    if (room.gameState === "waiting") {
+      socket.emit("error", "This game has not started yet");
+      return;
+    }
+
+    stopSpectating(player);
+    if (leaveQueue(player)) socket.emit("rankedQueueLeft");
+
+    player.spectatingRoomId = roomId;
+    room.spectators.push({ id: player.id, name: player.name });
+    socket.join(getSpectatorChannel(roomId));
+
+    broadcastSnapshot(room);
+    socket.emit("spectatingStarted", {
+      roomId,
+      room: getGameSnapshot(room, null),
+    });
+    console.log(`👀 ${player.name} is watching room ${room.name}`);
+    io.emit("onlinePlayersUpdated");
+  });
+
+  socket.on("stopSpectating", () => {
+    const player = players.get(socket.id);
+    if (player) stopSpectating(player);
+  });
+
+  socket.on("joinRankedQueue", ({ gameMode }) => {
+    const player = players.get(socket.id);
+
+    if (!player) {
+      socket.emit("error", "Player not found");
+      return;
+    }
+
+    if (player.roomId) {
+      socket.emit("error", "Leave your room before queueing");
+      return;
+    }
+
+    if (!getGameMode(gameMode)) {
+      socket.emit("error", "Unknown game mode");
+      return;
+    }
+
+    stopSpectating(player);
+    const rating = getRating(player.name, gameMode);
+    joinQueue(player, gameMode, rating);
+    socket.emit("rankedQueueJoined", { gameMode, rating });
+    console.log(`🔎 ${player.name} (${rating}) queued for ranked ${gameMode}`);
+  });
+
+  socket.on("leaveRankedQueue", () => {
+    const player = players.get(socket.id);
+    if (player && leaveQueue(player)) {
+      socket.emit("rankedQueueLeft");
+      console.log(`🚪 ${player.name} left the ranked queue`);
+    }
+  });
+
+  // Takes a seat in a room found by id or by invite code
+  const takeSeat = (room, { acceptedRules = false, password } = {}) => {
+    const player = players.get(socket.id);
+
+    if (!room) {
+      socket.emit("error", "Room not found");
+      return;
+    }
+
+    if (!player) {
+      socket.emit("error", "Player not found");
+      return;
+    }
+
+    if (room.players.length >= room.maxPlayers) {
+      socket.emit("error", "Room is full");
+      return;
+    }
+
+    if (room.ranked) {
+      socket.emit("error", "Ranked rooms are filled by matchmaking");
+      return;
+    }
+
+    if (room.tournament) {
+      socket.emit("error", "Tournament matches are joined from the tournament");
+      return;
+    }
+
+    if (room.players.find((p) => p.id === socket.id)) {
+      socket.emit("error", "You are already in this room");
+      return;
+    }
+
+    if (!checkPassword(room.passwordHash, password)) {
+      socket.emit("error", "Wrong room password");
+      return;
+    }
+
+    if (Object.keys(room.ruleOverrides).length > 0 && !acceptedRules) {
+      socket.emit("error", "Review the room's custom rules before joining");
+      return;
+    }
+
+    if (leaveQueue(player)) socket.emit("rankedQueueLeft");
+    stopSpectating(player);
+    room.players.push(player);
+    player.roomId = room.id;
+
+    socket.join(room.id);
+    console.log(
+      `👥 Player ${player.name} joined room ${room.name} (${room.players.length}/${room.maxPlayers}) - Mode: ${room.gameMode}`
+    );
+
+    io.to(room.id).emit("playerJoined", {
+      player: { id: player.id, name: player.name },
+      room: getRoomSummary(room),
+    });
+    broadcastSnapshot(room);
+    io.emit("roomsUpdated");
+
+    if (room.players.length === room.maxPlayers) {
+      console.log("🎯 Room full, starting multiplayer game in .5 seconds...");
+      setTimeout(() => {
+        startGame(room.id);
+      }, 500);
+    }
+  };
+
+  socket.on("joinRoom", (roomId, options) => {
+    const room = rooms.get(roomId);
+    if (room && room.isPrivate) {
+      socket.emit("error", "This room can only be joined with an invite");
+      return;
+    }
+    takeSeat(room, options);
+  });
+
+  socket.on("joinByInvite", ({ code, ...options } = {}) => {
+    const room = rooms.get(findInvite(code));
+    if (!room) {
+      socket.emit("error", "Invite not found");
+      return;
+    }
+    takeSeat(room, options);
+  });
+
+  // What an invite link shows before the player decides to join
+  socket.on("getInvite", (code) => {
+    const room = rooms.get(findInvite(code));
+    if (!room) {
+      socket.emit("error", "Invite not found");
+      return;
+    }
+    socket.emit("inviteInfo", {
+      code: room.inviteCode,
+      roomId: room.id,
+      name: room.name,
+      gameMode: room.gameMode,
+      players: room.players.map((p) => p.name),
+      maxPlayers: room.maxPlayers,
+      gameState: room.gameState,
+      hasPassword: Boolean(room.passwordHash),
+      ruleOverrides: room.ruleOverrides,
+    });
+  });
+
+  socket.on("selectCard", ({ roomId, cardId }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
+
+    if (!room || !player || room.gameState !== "playing") return;
+
+    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
+    if (playerIndex !== room.currentPlayer) return;
+
+    const currentPlayer = room.players[playerIndex];
+    const card = currentPlayer.hand.find((c) => c.id === cardId);
+    if (!card) {
+      reportSuspiciousAction("selectCard", "card not in hand");
+      return;
+    }
+    if (card.markedForDiscard) {
+      socket.emit("error", "That card is marked for discard, unmark it first");
+      return;
+    }
+
+    card.selected = !card.selected;
+    currentPlayer.selectedCards = currentPlayer.hand.filter((c) => c.selected);
+    recordReplayStep(room, {
+      seat: playerIndex,
+      type: "selectCard",
+      cardIds: [cardId],
+      selected: card.selected,
+    });
+
+    broadcastSnapshot(room);
+  });
+
+  socket.on("markForDiscard", ({ roomId, cardId }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
+
+    if (!room || !player || room.gameState !== "playing") return;
+
+    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
+    if (playerIndex !== room.currentPlayer) return;
+
+    const currentPlayer = room.players[playerIndex];
+    const card = currentPlayer.hand.find((c) => c.id === cardId);
+    if (!card) {
+      reportSuspiciousAction("markForDiscard", "card not in hand");
+      return;
+    }
+    if (card.selected) {
+      socket.emit(
+        "error",
+        "That card is in your hand to play, deselect it first"
+      );
+      return;
+    }
+    const markedCount = currentPlayer.hand.filter(
+      (c) => c.markedForDiscard
+    ).length;
+    if (
+      !card.markedForDiscard &&
+      markedCount >= currentPlayer.maxCardsPerDiscard
+    ) {
+      socket.emit(
+        "error",
+        `You can discard at most ${currentPlayer.maxCardsPerDiscard} cards at once`
+      );
+      return;
+    }
+
+    card.markedForDiscard = !card.markedForDiscard;
+    recordReplayStep(room, {
+      seat: playerIndex,
+      type: "markForDiscard",
+      cardIds: [cardId],
+      marked: card.markedForDiscard,
+    });
+
+    broadcastSnapshot(room);
+  });
+
+  socket.on("discardCards", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
+
+    if (!room || !player || room.gameState !== "playing") return;
+
+    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
+    if (playerIndex !== room.currentPlayer) return;
+
+    const currentPlayer = room.players[playerIndex];
+    const markedCount = currentPlayer.hand.filter(
+      (c) => c.markedForDiscard
+    ).length;
+    const error =
+      checkDiscard(currentPlayer, markedCount) || discardCards(room);
+    if (error) {
+      socket.emit("error", error);
+    }
+  });
+
+  // Prediction system, in modes with predictions
+  socket.on("makePrediction", ({ roomId, prediction }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
+
+    if (
+      !room ||
+      !player ||
+      !room.rules.predictions ||
+      room.gameState !== "playing"
+    )
       return;
-    }
 
-    const handResult = evaluateHand(currentPlayer.selectedCards);
-    let finalDamage = handResult.damage;
+    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
+    if (playerIndex === -1 || room.players[playerIndex].eliminated) return;
 
-    // Tactical mode: Check prediction
-    if (room.gameMode === GAME_MODES.TACTICAL && enemyPlayer.prediction) {
-      console.log(
-        `🎯 Checking prediction: ${enemyPlayer.prediction} vs actual: ${handResult.type}`
-      );
+    // Allow prediction only on an opponent's turn, not your own or your teammate's
+    if (playerIndex === room.currentPlayer) {
+      socket.emit("error", "You cannot predict your own hand");
+      return;
+    }
+    if (!getOpponentSeats(room, playerIndex).includes(room.currentPlayer)) {
+      socket.emit("error", "You can only predict an opponent's hand");
+      return;
+    }
 
-      if (enemyPlayer.prediction === handResult.type) {
-        finalDamage = Math.floor(finalDamage * 0.25); // 75% damage reduction
-        console.log(
-          `✅ ${enemyPlayer.name} correctly predicted ${handResult.type}! Damage reduced from ${handResult.damage} to ${finalDamage}`
-        );
-      } else {
-        finalDamage = Math.floor(finalDamage * 1.25); // 25% extra damage
-        console.log(
-          `❌ ${enemyPlayer.name} incorrectly predicted ${enemyPlayer.prediction}, actual was ${handResult.type}. Damage increased from ${handResult.damage} to ${finalDamage}`
-        );
-      }
+    makePrediction(room, playerIndex, prediction);
+  });
 
-      // Reset prediction after use
-      enemyPlayer.prediction = null;
-    }
+  // Parries, in modes with parries: set cards aside on an opponent's turn
+  socket.on("setParry", ({ roomId, cardIds }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
 
-    // Tactical mode: Apply armor
-    if (room.gameMode === GAME_MODES.TACTICAL && enemyPlayer.armor > 0) {
-      const armorAbsorbed = Math.min(enemyPlayer.armor, finalDamage);
-      enemyPlayer.armor -= armorAbsorbed;
-      finalDamage -= armorAbsorbed;
-      console.log(
-        `🛡️ ${enemyPlayer.name}'s armor absorbed ${armorAbsorbed} damage. Remaining armor: ${enemyPlayer.armor}, Final damage: ${finalDamage}`
-      );
-    }
+    if (!room || !player || !room.rules.parry || room.gameState !== "playing")
+      return;
 
-    // Deal damage to enemy
-    enemyPlayer.health = Math.max(0, enemyPlayer.health - finalDamage);
+    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
+    if (playerIndex === -1 || room.players[playerIndex].eliminated) return;
 
-    // Handle played cards - add to player's discard pile
-    const playedCards = currentPlayer.hand.filter((c) => c.selected);
-    currentPlayer.hand = currentPlayer.hand.filter((c) => !c.selected);
-    currentPlayer.selectedCards = [];
+    if (!getOpponentSeats(room, playerIndex).includes(room.currentPlayer)) {
+      socket.emit("error", "You can only set a parry on an opponent's turn");
+      return;
+    }
 
-    // Add played cards to player's discard pile
-    addToDiscardPile(currentPlayer.discardPile, playedCards);
+    const error = setParry(room, playerIndex, cardIds);
+    if (error) {
+      socket.emit("error", error);
+    }
+  });
 
-    // Different behavior based on game mode
-    if (room.gameMode === GAME_MODES.CLASSIC || GAME_MODES.RECYCLING) {
-      // Classic mode: Only replace the cards that were played
-      const cardsToReplace = playedCards.length;
+  socket.on("playHand", ({ roomId, targetIndex }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
 
-      // Ensure we have enough cards for replacement
-      if (
-        !ensureDeckHasCards(
-          currentPlayer.deck,
-          currentPlayer.discardPile,
-          cardsToReplace
-        )
-      ) {
-        console.log("⚠️ Warning: Not enough cards for card replacement");
-      }
+    if (!room || !player || room.gameState !== "playing") return;
 
-      // Draw replacement cards
-      const availableCards = Math.min(
-        cardsToReplace,
-        currentPlayer.deck.length
-      );
-      const newCards = currentPlayer.deck
-        .splice(0, availableCards)
-        .map((card) => ({
-          ...card,
-          selected: false,
-          markedForDiscard: false,
-        }));
-
-      currentPlayer.hand.push(...newCards);
-      console.log(
-        `🔄 ${room.gameMode} mode: Replaced ${availableCards} played cards`
-      );
-    } else {
-      // Tactical/Recycling modes: Replace entire hand (8 cards)
-      if (
-        !ensureDeckHasCards(currentPlayer.deck, currentPlayer.discardPile, 8)
-      ) {
-        console.log("⚠️ Warning: Not enough cards for full hand replacement");
-      }
+    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
+    if (playerIndex !== room.currentPlayer) {
+      if (playerIndex !== -1) reportSuspiciousAction("playHand", "out of turn");
+      return;
+    }
 
-      const availableCards = Math.min(8, currentPlayer.deck.length);
-      const newCards = currentPlayer.deck
-        .splice(0, availableCards)
-        .map((card) => ({
-          ...card,
-          selected: false,
-          markedForDiscard: false,
-        }));
+    if (room.players[playerIndex].selectedCards.length === 0) return;
 
-      currentPlayer.hand = newCards;
-      console.log(
-        `🔄 ${room.gameMode} mode: Replaced entire hand with ${availableCards} cards`
-      );
+    // A duel has only one opponent to attack, the target can be left out
+    const error = playHand(
+      room,
+      targetIndex === undefined
+        ? getDefaultTarget(room, playerIndex)
+        : targetIndex
+    );
+    if (error) {
+      socket.emit("invalidHand", error);
     }
+  });
 
-    room.lastPlayedHand = { ...handResult, damage: finalDamage };
+  // Team games: hand a card to your teammate on your turn
+  socket.on("passCard", ({ roomId, cardId }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
 
-    // Check for game over
-    if (enemyPlayer.health <= 0) {
-      room.gameState = "ended";
-      io.to(roomId).emit("gameEnded", {
-        winner: currentPlayer,
-        handResult: room.lastPlayedHand,
-      });
+    if (!room || !player || !room.teams || room.gameState !== "playing") return;
+
+    const playerIndex = room.players.findIndex((p) => p.id === socket.id);
+    if (playerIndex !== room.currentPlayer) {
+      socket.emit("error", "You can only pass a card on your turn");
       return;
     }
 
-    // if(currentPlayer.discardsUsed === currentPlayer.maxDiscards){
-    //     currentPlayer.discardCooldown++
-    //     if (currentPlayer.discardCooldown = 4){
-    //       currentPlayer.discardsUsed = 0
-    //     }
-    //   }
-    // Switch turns
-    room.currentPlayer = 1 - room.currentPlayer;
-    room.turn++;
-
-    room.players.forEach((p) => {
-      if (p.discardCooldown > 0 && room.gameMode === GAME_MODES.RECYCLING) {
-        p.discardCooldown--;
-        console.log(" PLAY HAND DISCARD COOLDOWN: ", p.name, p.discardCooldown)
-        if (p.discardCooldown === 0) {
-          p.discardsUsed = 0;
-          console.log("reset discards used")
-        }
-      }
-    });
-
-    io.to(roomId).emit("handPlayed", {
-      playerIndex,
-      handResult: room.lastPlayedHand,
-      newCurrentPlayer: room.currentPlayer,
-      turn: room.turn,
-      players: room.players.map((p, idx) => ({
-        id: p.id,
-        name: p.name,
-        health: p.health,
-        maxHealth: p.maxHealth,
-        handSize: p.hand.length,
-        discardsUsed: p.discardsUsed || 0,
-        maxDiscards: p.maxDiscards || 3,
-        maxCardsPerDiscard: p.maxCardsPerDiscard || 5,
-        discardCooldown: p.discardCooldown || 0,
-        ...(room.gameMode === GAME_MODES.TACTICAL
-          ? { armor: p.armor, prediction: p.prediction }
-          : {}),
-        ...(idx === playerIndex ? { hand: p.hand } : {}),
-      })),
-    });
+    const error = passCard(room, cardId);
+    if (error) {
+      socket.emit("error", error);
+    }
   });
 
-  // Tactical mode: Build armor
+  // Build armor, in modes with armor
   socket.on("buildArmor", ({ roomId }) => {
     const room = rooms.get(roomId);
     const player = players.get(socket.id);
 
-    if (
-      !room ||
-      !player ||
-      room.gameMode !== GAME_MODES.TACTICAL ||
-      room.gameState !== "playing"
-    )
+    if (!room || !player || !room.rules.armor || room.gameState !== "playing")
       return;
 
     const playerIndex = room.players.findIndex((p) => p.id === socket.id);
@@ -863,206 +2760,426 @@ io.on("connection", (socket) => {
       return;
     }
 
-    const validation = validateHand(currentPlayer.selectedCards);
-    if (!validation.valid) {
-      socket.emit("invalidHand", validation.error);
+    const error = buildArmor(room);
+    if (error) {
+      socket.emit("invalidHand", error);
+    }
+  });
+
+  // Rematch functionality, everyone in the room has to agree
+  socket.on("requestRematch", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
+
+    if (!room || !player) return;
+
+    if (room.tournament && room.tournament.decided) {
+      socket.emit("error", "This tournament match is over");
       return;
     }
 
-    // Calculate armor based on hand type
-    let armorGained = 0;
-    const handResult = evaluateHand(currentPlayer.selectedCards);
-
-    switch (handResult.type) {
-      case "High Card":
-        armorGained = 2;
-        break;
-      case "One Pair":
-        armorGained = 5;
-        break;
-      case "Two Pair":
-        armorGained = 8;
-        break;
-      case "Three of a Kind":
-        armorGained = 12;
-        break;
-      case "Straight":
-        armorGained = 15;
-        break;
-      case "Flush":
-        armorGained = 18;
-        break;
-      case "Full House":
-        armorGained = 22;
-        break;
-      case "Four of a Kind":
-        armorGained = 25;
-        break;
-      case "Straight Flush":
-        armorGained = 30;
-        break;
-      case "Royal Flush":
-        armorGained = 35;
-        break;
-      default:
-        armorGained = 2;
-        break;
-    }
-
-    const oldArmor = currentPlayer.armor;
-    currentPlayer.armor = Math.min(50, currentPlayer.armor + armorGained); // Max 50 armor
-    const actualArmorGained = currentPlayer.armor - oldArmor;
+    console.log(`🔄 ${player.name} requested rematch in room ${roomId}`);
+    if (!voteForRematch(room, player)) {
+      socket.to(roomId).emit("rematchRequested", { playerName: player.name });
+    }
+  });
 
-    console.log(
-      `🛡️ ${currentPlayer.name} built ${actualArmorGained} armor with ${handResult.type} (Total: ${currentPlayer.armor}/50)`
+  socket.on("acceptRematch", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
+
+    if (!room || !player) return;
+
+    if (room.tournament && room.tournament.decided) {
+      socket.emit("error", "This tournament match is over");
+      return;
+    }
+
+    console.log(`✅ ${player.name} accepted rematch in room ${roomId}`);
+    voteForRematch(room, player);
+  });
+
+  socket.on("declineRematch", ({ roomId }) => {
+    const room = rooms.get(roomId);
+    const player = players.get(socket.id);
+
+    if (!room || !player) return;
+
+    console.log(`❌ ${player.name} declined rematch in room ${roomId}`);
+    room.rematchVotes = [];
+    socket.to(roomId).emit("rematchDeclined");
+  });
+
+  // Lobby: who is online and what they are doing, everyone with a name shows up
+  socket.on("getOnlinePlayers", () => {
+    socket.emit(
+      "onlinePlayersList",
+      [...players.values()].map((player) => ({
+        id: player.id,
+        name: player.name,
+        status: getPresence(player),
+      }))
     );
+  });
+
+  socket.on("getLobbyChat", () => {
+    socket.emit("lobbyChatHistory", lobbyChat);
+  });
 
-    // Handle played cards - add to player's discard pile
-    const playedCards = currentPlayer.hand.filter((c) => c.selected);
-    currentPlayer.hand = currentPlayer.hand.filter((c) => !c.selected);
-    currentPlayer.selectedCards = [];
+  socket.on("sendLobbyChatMessage", ({ text, emote } = {}) => {
+    const player = players.get(socket.id);
+    if (!player) return;
 
-    // Add played cards to player's discard pile
-    addToDiscardPile(currentPlayer.discardPile, playedCards);
+    const error = validateChatMessage({ text, emote });
+    if (error) {
+      socket.emit("chatError", error);
+      return;
+    }
 
-    // Ensure we have enough cards for new hand
-    if (!ensureDeckHasCards(currentPlayer.deck, currentPlayer.discardPile, 8)) {
-      console.log("⚠️ Warning: Not enough cards for full hand replacement");
+    if (isChatRateLimited(player)) {
+      socket.emit("chatError", "You're sending messages too fast");
+      return;
     }
 
-    // Draw new hand
-    const availableCards = Math.min(8, currentPlayer.deck.length);
-    const newCards = currentPlayer.deck
-      .splice(0, availableCards)
-      .map((card) => ({
-        ...card,
-        selected: false,
-        markedForDiscard: false,
-      }));
+    io.emit(
+      "lobbyChatMessage",
+      addChatMessage(lobbyChat, player, { text, emote })
+    );
+  });
 
-    currentPlayer.hand = newCards;
+  // Direct challenges, only between players waiting in the lobby
+  socket.on(
+    "challengePlayer",
+    ({ playerId, gameMode = DEFAULT_GAME_MODE } = {}) => {
+      const player = players.get(socket.id);
+      const opponent = players.get(playerId);
 
-    // Switch turns
-    room.currentPlayer = 1 - room.currentPlayer;
-    room.turn++;
+      if (!player) {
+        socket.emit("error", "Player not found");
+        return;
+      }
 
-    room.players.forEach((p) => {
-      if (p.discardCooldown > 0) {
-        p.discardCooldown--;
-        if (p.discardCooldown === 0) {
-          p.discardsUsed;
-        }
+      if (!opponent || opponent === player) {
+        socket.emit("error", "That player is not online");
+        return;
       }
-    });
 
-    io.to(roomId).emit("armorBuilt", {
-      playerIndex,
-      armorGained: actualArmorGained,
-      handResult,
-      newCurrentPlayer: room.currentPlayer,
-      turn: room.turn,
-      players: room.players.map((p, idx) => ({
-        id: p.id,
-        name: p.name,
-        health: p.health,
-        maxHealth: p.maxHealth,
-        handSize: p.hand.length,
-        discardsUsed: p.discardsUsed,
-        maxDiscards: p.maxDiscards,
-        maxCardsPerDiscard: p.maxCardsPerDiscard,
-        discardCooldown: p.discardCooldown,
-        armor: p.armor,
-        prediction: p.prediction,
-        ...(idx === playerIndex ? { hand: p.hand } : {}),
-      })),
-    });
+      if (!getGameMode(gameMode)) {
+        socket.emit("error", "Unknown game mode");
+        return;
+      }
+
+      if (getPresence(player) !== "idle" || getPresence(opponent) !== "idle") {
+        socket.emit("error", "Both players have to be in the lobby");
+        return;
+      }
+
+      if (hasChallenge(player, opponent)) {
+        socket.emit("error", `You already challenged ${opponent.name}`);
+        return;
+      }
+
+      const challenge = createChallenge(
+        player,
+        opponent,
+        gameMode,
+        (expired) => {
+          io.to(player.id).to(opponent.id).emit("challengeCancelled", {
+            challengeId: expired.id,
+            reason: "The challenge expired",
+          });
+        }
+      );
+      socket.emit("challengeSent", {
+        challengeId: challenge.id,
+        opponent: opponent.name,
+        gameMode,
+      });
+      io.to(opponent.id).emit("challengeReceived", {
+        challengeId: challenge.id,
+        challenger: player.name,
+        gameMode,
+      });
+      console.log(
+        `🤺 ${player.name} challenged ${opponent.name} to ${gameMode}`
+      );
+    }
+  );
+
+  socket.on("respondToChallenge", ({ challengeId, accept } = {}) => {
+    const player = players.get(socket.id);
+    const challenge = getChallenge(challengeId);
+
+    if (!player || !challenge || challenge.opponent !== player) {
+      socket.emit("error", "This challenge is no longer open");
+      return;
+    }
+
+    removeChallenge(challenge);
+    const { challenger } = challenge;
+
+    if (!accept) {
+      io.to(challenger.id).emit("challengeCancelled", {
+        challengeId,
+        reason: `${player.name} declined your challenge`,
+      });
+      return;
+    }
+
+    if (
+      !challenger.connected ||
+      getPresence(challenger) !== "idle" ||
+      getPresence(player) !== "idle"
+    ) {
+      socket.emit("error", `${challenger.name} is busy right now`);
+      return;
+    }
+
+    // Any other challenges either of them had open are off
+    [player, challenger].forEach((busy) =>
+      removeChallengesOf(busy).forEach((other) => {
+        io.to(other.challenger.id)
+          .to(other.opponent.id)
+          .emit("challengeCancelled", {
+            challengeId: other.id,
+            reason: `${busy.name} started another game`,
+          });
+      })
+    );
+    startChallengeMatch(challenge);
   });
 
-  // Rematch functionality
-  socket.on("requestRematch", ({ roomId }) => {
+  // Room chat, only the players seated at the table take part. Rejected
+  // messages get their own event so the chat panel can show why inline.
+  socket.on("getChatHistory", ({ roomId }) => {
     const room = rooms.get(roomId);
     const player = players.get(socket.id);
 
-    if (!room || !player) return;
+    if (!room || !player || !room.players.includes(player)) return;
 
-    socket.to(roomId).emit("rematchRequested", { playerName: player.name });
-    console.log(`🔄 ${player.name} requested rematch in room ${roomId}`);
+    socket.emit("chatHistory", { roomId, messages: room.chat });
   });
 
-  socket.on("acceptRematch", ({ roomId }) => {
+  socket.on("sendChatMessage", ({ roomId, text, emote } = {}) => {
     const room = rooms.get(roomId);
     const player = players.get(socket.id);
 
-    if (!room || !player) return;
+    if (!room || !player || !room.players.includes(player)) return;
 
-    console.log(`✅ ${player.name} accepted rematch in room ${roomId}`);
+    const error = validateChatMessage({ text, emote });
+    if (error) {
+      socket.emit("chatError", error);
+      return;
+    }
+
+    if (isChatRateLimited(player)) {
+      socket.emit("chatError", "You're sending messages too fast");
+      return;
+    }
+
+    io.to(room.id).emit(
+      "chatMessage",
+      addChatMessage(room.chat, player, { text, emote })
+    );
+  });
+
+  // Tournaments: anyone can organize one, the organizer starts it
+  socket.on("getTournaments", () => {
+    const player = players.get(socket.id);
+    const token = player && sessionTokens.get(player);
+    socket.emit(
+      "tournamentsList",
+      listTournaments().map((tournament) => ({
+        ...getTournamentSummary(tournament),
+        organizing:
+          Boolean(token) && tournamentOrganizers.get(tournament) === token,
+      }))
+    );
+  });
 
-    const gameConfig =
-      GAME_MODE_CONFIG[room.gameMode] || GAME_MODE_CONFIG[GAME_MODES.CLASSIC];
-
-    room.players.forEach((player, index) => {
-      player.health = gameConfig.startingHealth;
-      player.maxHealth = gameConfig.startingHealth;
-      player.deck = createDeck();
-      player.hand = player.deck.splice(0, 8);
-      player.selectedCards = [];
-      player.discardsUsed = 0;
-      player.maxDiscards = 3;
-      player.maxCardsPerDiscard = 5;
-      player.discardCooldown = 0;
-      player.discardPile = [];
-
-      if (room.gameMode === GAME_MODES.TACTICAL) {
-        player.armor = 0;
-        player.prediction = null;
-        player.parryCards = [];
+  socket.on(
+    "createTournament",
+    ({ name, format, gameMode = DEFAULT_GAME_MODE, bestOf = 1 } = {}) => {
+      const player = players.get(socket.id);
+
+      if (!player) {
+        socket.emit("error", "Player not found");
+        return;
       }
-    });
 
-    room.gameState = "playing";
-    room.currentPlayer = Math.floor(Math.random() * 2);
+      if (rejectName(name, MAX_TOURNAMENT_NAME_LENGTH, "Tournament names")) {
+        return;
+      }
+
+      if (!TOURNAMENT_FORMATS.includes(format)) {
+        socket.emit("error", "Unknown tournament format");
+        return;
+      }
+
+      if (!getGameMode(gameMode)) {
+        socket.emit("error", "Unknown game mode");
+        return;
+      }
+
+      if (!SERIES_LENGTHS.includes(bestOf)) {
+        socket.emit(
+          "error",
+          `Series can be best of ${SERIES_LENGTHS.join(", ")}`
+        );
+        return;
+      }
+
+      const tournament = createTournament({
+        name: name.trim(),
+        format,
+        gameMode,
+        bestOf,
+        organizer: player.name,
+      });
+      tournamentOrganizers.set(tournament, sessionTokens.get(player));
+      addEntrant(tournament, player.name);
+      bindEntrant(tournament, player);
+      console.log(
+        `🏟️ ${player.name} created ${format} tournament ${tournament.name}`
+      );
+      socket.emit("tournamentCreated", { tournamentId: tournament.id });
+      io.emit("tournamentsUpdated");
+    }
+  );
+
+  socket.on("joinTournament", (tournamentId) => {
+    const player = players.get(socket.id);
+    const tournament = getTournament(tournamentId);
+
+    if (!player || !tournament) {
+      socket.emit("error", "Tournament not found");
+      return;
+    }
+
+    const error = addEntrant(tournament, player.name);
+    if (error) {
+      socket.emit("error", error);
+      return;
+    }
+    bindEntrant(tournament, player);
+    io.emit("tournamentsUpdated");
+  });
+
+  socket.on("leaveTournament", (tournamentId) => {
+    const player = players.get(socket.id);
+    const tournament = getTournament(tournamentId);
+
+    if (
+      player &&
+      tournament &&
+      isEntrant(tournament, player.name, player) &&
+      removeEntrant(tournament, player.name)
+    ) {
+      tournamentEntrants.get(tournament).delete(player.name.toLowerCase());
+      io.emit("tournamentsUpdated");
+    }
+  });
+
+  socket.on("startTournament", (tournamentId) => {
+    const player = players.get(socket.id);
+    const tournament = getTournament(tournamentId);
+
+    if (!player || !tournament) {
+      socket.emit("error", "Tournament not found");
+      return;
+    }
+
+    if (tournamentOrganizers.get(tournament) !== sessionTokens.get(player)) {
+      socket.emit("error", "Only the organizer can start the tournament");
+      return;
+    }
+
+    const error = startTournament(tournament);
+    if (error) {
+      socket.emit("error", error);
+      return;
+    }
     console.log(
-      `🎲 Rematch: ${room.players[room.currentPlayer].name} goes first!`
+      `🏟️ Tournament ${tournament.name} started with ${tournament.entrants.length} players`
+    );
+    openTournamentMatches(
+      tournament,
+      getCurrentRound(tournament).filter((match) => !match.winner)
     );
-    room.turn = 1;
-    room.lastPlayedHand = null;
+    io.emit("tournamentsUpdated");
+  });
 
-    io.to(roomId).emit("rematchAccepted", {
-      room: {
-        ...room,
-        gameMode: room.gameMode,
-      },
-    });
-    console.log(`🎮 Rematch started in room ${roomId}`);
+  // Takes the player's seat in their current tournament match, for entrants
+  // who were offline or busy when the round started
+  socket.on("joinTournamentMatch", (tournamentId) => {
+    const player = players.get(socket.id);
+    const tournament = getTournament(tournamentId);
+    const match =
+      player && tournament && isEntrant(tournament, player.name, player)
+        ? getPendingMatch(tournament, player.name)
+        : null;
+
+    if (!match) {
+      socket.emit("error", "You have no match to play in this tournament");
+      return;
+    }
+
+    if (player.roomId) {
+      socket.emit("error", "Leave your room before joining your match");
+      return;
+    }
+
+    // The room is gone if both players left it before the game started
+    const room =
+      rooms.get(match.roomId) || createTournamentRoom(tournament, match);
+    if (room.players.includes(player)) return;
+
+    stopSpectating(player);
+    const error = seatTournamentPlayer(room, player);
+    if (error) socket.emit("error", error);
   });
 
-  socket.on("declineRematch", ({ roomId }) => {
-    const room = rooms.get(roomId);
+  // Lets the organizer settle a match that cannot be played, a no-show
+  socket.on("awardTournamentMatch", ({ tournamentId, matchId, winner }) => {
     const player = players.get(socket.id);
+    const tournament = getTournament(tournamentId);
 
-    if (!room || !player) return;
+    if (!player || !tournament) {
+      socket.emit("error", "Tournament not found");
+      return;
+    }
 
-    console.log(`❌ ${player.name} declined rematch in room ${roomId}`);
-    socket.to(roomId).emit("rematchDeclined");
+    if (tournamentOrganizers.get(tournament) !== sessionTokens.get(player)) {
+      socket.emit("error", "Only the organizer can award a match");
+      return;
+    }
+
+    const match = findMatch(tournament, matchId);
+    const room = match && rooms.get(match.roomId);
+    if (room && room.gameState === "playing") {
+      socket.emit("error", "This match is being played");
+      return;
+    }
+
+    const error = recordResult(tournament, matchId, winner);
+    if (error) {
+      socket.emit("error", error);
+      return;
+    }
+    if (room) room.tournament.decided = true;
+    console.log(
+      `🏟️ ${player.name} awarded a match in ${tournament.name} to ${winner}`
+    );
+
+    openTournamentMatches(tournament, advanceTournament(tournament));
+    io.emit("tournamentsUpdated");
   });
 
   socket.on("leaveRoom", () => {
     const player = players.get(socket.id);
     if (player && player.roomId) {
-      const room = rooms.get(player.roomId);
-      if (room) {
-        room.players = room.players.filter((p) => p.id !== socket.id);
-        socket.leave(player.roomId);
-
-        if (room.players.length === 0) {
-          rooms.delete(player.roomId);
-        } else {
-          io.to(player.roomId).emit("playerLeft", { playerId: socket.id });
-        }
-
-        player.roomId = null;
-        io.emit("roomsUpdated");
-      }
+      socket.leave(player.roomId);
+      removePlayerFromRoom(player);
     }
   });
 
@@ -1070,22 +3187,47 @@ io.on("connection", (socket) => {
     console.log("User disconnected:", socket.id);
 
     const player = players.get(socket.id);
-    if (player && player.roomId) {
-      const room = rooms.get(player.roomId);
-      if (room) {
-        room.players = room.players.filter((p) => p.id !== socket.id);
+    // Already taken over by a newer socket of the same session
+    if (!player) return;
 
-        if (room.players.length === 0) {
-          rooms.delete(player.roomId);
-        } else {
-          io.to(player.roomId).emit("playerLeft", { playerId: socket.id });
-        }
+    players.delete(socket.id);
+    player.connected = false;
+    leaveQueue(player);
+    if (player.spectatingRoomId) removeSpectator(player);
+    removeChallengesOf(player).forEach((challenge) => {
+      const other =
+        challenge.challenger === player
+          ? challenge.opponent
+          : challenge.challenger;
+      io.to(other.id).emit("challengeCancelled", {
+        challengeId: challenge.id,
+        reason: `${player.name} went offline`,
+      });
+    });
+    io.emit("onlinePlayersUpdated");
 
-        io.emit("roomsUpdated");
-      }
+    const session = sessions.get(sessionToken);
+    if (!session) {
+      if (player.roomId) removePlayerFromRoom(player);
+      return;
     }
 
-    players.delete(socket.id);
+    // Hold the seat so a returning client can pick up where it left off
+    const token = sessionToken;
+    if (player.roomId) {
+      const room = rooms.get(player.roomId);
+      emitToRoom(room, "playerDisconnected", {
+        playerId: player.id,
+        gracePeriodMs: RECONNECT_GRACE_MS,
+      });
+      broadcastSnapshot(room);
+    }
+
+    session.disconnectTimer = setTimeout(() => {
+      console.log(`⌛ Session of ${player.name} expired`);
+      sessions.delete(token);
+      if (player.roomId) removePlayerFromRoom(player);
+    }, RECONNECT_GRACE_MS);
   });
 });
 
@@ -0,0 +1,55 @@
+// Invite codes and passwords for rooms. Codes are short enough to read out
+// loud and leave out characters that are easy to mix up (0/O, 1/I/L).
+const crypto = require("crypto");
+
+const INVITE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+const INVITE_CODE_LENGTH = 6;
+const MAX_PASSWORD_LENGTH = 64;
+
+// code -> roomId
+const invites = new Map();
+
+function createInvite(roomId) {
+  let code;
+  do {
+    code = Array.from(
+      { length: INVITE_CODE_LENGTH },
+      () => INVITE_ALPHABET[crypto.randomInt(INVITE_ALPHABET.length)]
+    ).join("");
+  } while (invites.has(code));
+  invites.set(code, roomId);
+  return code;
+}
+
+// Codes are typed by hand, so case, spaces and dashes don't matter
+function findInvite(code) {
+  if (typeof code !== "string") return null;
+  return invites.get(code.toUpperCase().replace(/[\s-]/g, "")) || null;
+}
+
+function removeInvite(code) {
+  invites.delete(code);
+}
+
+// Rooms only keep a hash, the room object itself is sent to clients
+function hashPassword(password) {
+  return crypto.createHash("sha256").update(password).digest("hex");
+}
+
+function checkPassword(passwordHash, password) {
+  if (!passwordHash) return true;
+  if (typeof password !== "string") return false;
+  return crypto.timingSafeEqual(
+    Buffer.from(passwordHash, "hex"),
+    Buffer.from(hashPassword(password), "hex")
+  );
+}
+
+module.exports = {
+  MAX_PASSWORD_LENGTH,
+  checkPassword,
+  createInvite,
+  findInvite,
+  hashPassword,
+  removeInvite,
+};
@@ -0,0 +1,100 @@
+// Ranked queue, one per game mode. Players are paired with the closest rating
+// inside their search window, which widens the longer they wait.
+const BASE_SEARCH_RANGE = 100;
+const SEARCH_RANGE_STEP = 50;
+const SEARCH_RANGE_STEP_MS = 10 * 1000;
+const MAX_SEARCH_RANGE = 800;
+
+// gameMode -> [{ player, rating, joinedAt }]
+const queues = new Map();
+
+function getSearchRange(entry, now) {
+  const steps = Math.floor((now - entry.joinedAt) / SEARCH_RANGE_STEP_MS);
+  return Math.min(
+    MAX_SEARCH_RANGE,
+    BASE_SEARCH_RANGE + steps * SEARCH_RANGE_STEP
+  );
+}
+
+function joinQueue(player, gameMode, rating) {
+  leaveQueue(player);
+  if (!queues.has(gameMode)) queues.set(gameMode, []);
+  queues.get(gameMode).push({ player, rating, joinedAt: Date.now() });
+}
+
+// Returns true if the player was waiting in a queue
+function leaveQueue(player) {
+  for (const queue of queues.values()) {
+    const index = queue.findIndex((entry) => entry.player === player);
+    if (index !== -1) {
+      queue.splice(index, 1);
+      return true;
+    }
+  }
+  return false;
+}
+
+function getQueuedEntries() {
+  const now = Date.now();
+  const entries = [];
+  queues.forEach((queue, gameMode) => {
+    queue.forEach((entry) => {
+      entries.push({
+        ...entry,
+        gameMode,
+        waitedMs: now - entry.joinedAt,
+        searchRange: getSearchRange(entry, now),
+      });
+    });
+  });
+  return entries;
+}
+
+// Pairs up waiting players, longest waiting first. Both players' windows
+// have to cover the rating gap. Paired players are removed from the queue.
+function findMatches() {
+  const now = Date.now();
+  const matches = [];
+
+  queues.forEach((queue, gameMode) => {
+    let i = 0;
+    while (i < queue.length) {
+      const entry = queue[i];
+      let best = -1;
+
+      for (let j = i + 1; j < queue.length; j++) {
+        const other = queue[j];
+        const gap = Math.abs(entry.rating - other.rating);
+        if (
+          entry.player.name.toLowerCase() === other.player.name.toLowerCase() ||
+          gap > getSearchRange(entry, now) ||
+          gap > getSearchRange(other, now)
+        ) {
+          continue;
+        }
+        if (best === -1 || gap < Math.abs(entry.rating - queue[best].rating)) {
+          best = j;
+        }
+      }
+
+      if (best === -1) {
+        i++;
+        continue;
+      }
+
+      const opponent = queue[best];
+      queue.splice(best, 1);
+      queue.splice(i, 1);
+      matches.push({ gameMode, entries: [entry, opponent] });
+    }
+  });
+
+  return matches;
+}
+
+module.exports = {
+  joinQueue,
+  leaveQueue,
+  getQueuedEntries,
+  findMatches,
+};
@@ -0,0 +1,263 @@
+// Game mode definitions, one JSON file per mode in ./modes. Every rule that
+// differs between modes lives in these files, so a new variant is a new file.
+const fs = require("fs");
+const path = require("path");
+
+const MODES_DIR = path.join(__dirname, "modes");
+
+const DEFAULT_GAME_MODE = "classic";
+
+// How a hand is topped up after an attack or after building armor, every mode
+// picks one for each:
+// - replacePlayed: draw as many cards as were played
+// - fullHand: throw the rest of the hand away and draw a full new one
+// - drawTo: draw until the hand holds `count` cards
+// - drawFixed: draw `count` cards, never past the hand size
+const REFILL_STRATEGIES = ["replacePlayed", "fullHand", "drawTo", "drawFixed"];
+const COUNTED_REFILLS = ["drawTo", "drawFixed"];
+const REFILL_ACTIONS = ["attack", "armor"];
+
+// Rules a host can change for their own room and the values each accepts.
+// `path` is where the rule lives in a mode definition.
+const RULE_OVERRIDES = {
+  startingHealth: {
+    label: "Starting HP",
+    min: 50,
+    max: 1000,
+    path: ["startingHealth"],
+  },
+  handSize: { label: "Hand size", min: 5, max: 12, path: ["handSize"] },
+  discardTokens: {
+    label: "Discard tokens",
+    min: 0,
+    max: 10,
+    path: ["discards", "tokens"],
+  },
+  discardBank: {
+    label: "Discard token bank",
+    min: 0,
+    max: 10,
+    path: ["discards", "maxTokens"],
+  },
+  discardRegen: {
+    label: "Turns per new token (0 never)",
+    min: 0,
+    max: 20,
+    path: ["discards", "regenTurns"],
+  },
+  cardsPerDiscard: {
+    label: "Cards per discard",
+    min: 1,
+    max: 12,
+    path: ["discards", "maxCards"],
+  },
+  discardCooldown: {
+    label: "Discard cooldown (turns)",
+    min: 0,
+    max: 20,
+    path: ["discards", "cooldownTurns"],
+  },
+  armorCap: { label: "Armor cap", min: 1, max: 500, path: ["armor", "cap"] },
+  faceValueDamage: {
+    label: "Face value damage",
+    type: "boolean",
+    path: ["faceValueDamage"],
+  },
+};
+
+const isPositiveInteger = (value) => Number.isInteger(value) && value > 0;
+const isPositiveNumber = (value) => typeof value === "number" && value > 0;
+const isObject = (value) =>
+  Boolean(value) && typeof value === "object" && !Array.isArray(value);
+
+// Returns what is wrong with one action's refill, or null
+function validateRefill(refill) {
+  if (!isObject(refill) || !REFILL_STRATEGIES.includes(refill.strategy)) {
+    return `strategy must be one of ${REFILL_STRATEGIES.join(", ")}`;
+  }
+  if (
+    COUNTED_REFILLS.includes(refill.strategy) &&
+    !isPositiveInteger(refill.count)
+  ) {
+    return `${refill.strategy} needs a positive count`;
+  }
+  return null;
+}
+
+// Returns what is wrong with a definition, or null if it is usable
+function validateGameMode(mode, fileName) {
+  if (!isObject(mode)) return "must be a JSON object";
+  if (`${mode.id}.json` !== fileName) return "id must match the file name";
+  if (typeof mode.name !== "string" || !mode.name) return "name is required";
+  if (typeof mode.description !== "string") return "description is required";
+  if (typeof mode.icon !== "string") return "icon is required";
+  if (!Number.isInteger(mode.order)) return "order must be an integer";
+  if (!isPositiveInteger(mode.startingHealth)) {
+    return "startingHealth must be a positive integer";
+  }
+  if (!isPositiveInteger(mode.handSize)) {
+    return "handSize must be a positive integer";
+  }
+  if (!isObject(mode.refill)) {
+    return `refill needs a strategy for ${REFILL_ACTIONS.join(" and ")}`;
+  }
+  for (const action of REFILL_ACTIONS) {
+    const error = validateRefill(mode.refill[action]);
+    if (error) return `refill.${action} ${error}`;
+  }
+  if (typeof mode.faceValueDamage !== "boolean") {
+    return "faceValueDamage must be true or false";
+  }
+
+  // See discards.js for how the tokens work
+  const { discards } = mode;
+  if (
+    !isObject(discards) ||
+    !["tokens", "maxTokens", "regenTurns", "cooldownTurns"].every(
+      (key) => Number.isInteger(discards[key]) && discards[key] >= 0
+    ) ||
+    !isPositiveInteger(discards.maxCards)
+  ) {
+    return "discards needs tokens, maxTokens, regenTurns, cooldownTurns and maxCards";
+  }
+  if (discards.tokens > discards.maxTokens) {
+    return "discards can't start with more tokens than maxTokens";
+  }
+
+  if (
+    mode.armor !== null &&
+    !(isObject(mode.armor) && isPositiveInteger(mode.armor.cap))
+  ) {
+    return "armor must be null or { cap }";
+  }
+  if (
+    mode.predictions !== null &&
+    !(
+      isObject(mode.predictions) &&
+      isPositiveNumber(mode.predictions.correctMultiplier) &&
+      isPositiveNumber(mode.predictions.wrongMultiplier)
+    )
+  ) {
+    return "predictions must be null or { correctMultiplier, wrongMultiplier }";
+  }
+  if (
+    mode.parry !== null &&
+    !(
+      isObject(mode.parry) &&
+      isPositiveNumber(mode.parry.matchMultiplier) &&
+      isPositiveNumber(mode.parry.reflectMultiplier)
+    )
+  ) {
+    return "parry must be null or { matchMultiplier, reflectMultiplier }";
+  }
+  return null;
+}
+
+// Read once at startup, a broken file stops the server instead of a game
+function loadGameModes() {
+  const modes = fs
+    .readdirSync(MODES_DIR)
+    .filter((fileName) => fileName.endsWith(".json"))
+    .map((fileName) => {
+      const mode = JSON.parse(
+        fs.readFileSync(path.join(MODES_DIR, fileName), "utf8")
+      );
+      const error = validateGameMode(mode, fileName);
+      if (error) {
+        throw new Error(`Invalid game mode ${fileName}: ${error}`);
+      }
+      return mode;
+    })
+    .sort((a, b) => a.order - b.order);
+
+  if (!modes.some((mode) => mode.id === DEFAULT_GAME_MODE)) {
+    throw new Error(`Missing the default game mode ${DEFAULT_GAME_MODE}`);
+  }
+  return new Map(modes.map((mode) => [mode.id, Object.freeze(mode)]));
+}
+
+const gameModes = loadGameModes();
+console.log(`🃏 Game modes: ${[...gameModes.keys()].join(", ")}`);
+
+function getGameMode(id) {
+  return gameModes.get(id) || null;
+}
+
+function listGameModes() {
+  return [...gameModes.values()];
+}
+
+function getRuleValue(mode, key) {
+  return RULE_OVERRIDES[key].path.reduce(
+    (value, step) => (value ? value[step] : undefined),
+    mode
+  );
+}
+
+// Returns what is wrong with a host's rule overrides for a mode, or null
+function validateRuleOverrides(mode, overrides) {
+  if (!isObject(overrides)) return "Invalid room rules";
+
+  for (const [key, value] of Object.entries(overrides)) {
+    if (!Object.hasOwn(RULE_OVERRIDES, key)) return `Unknown rule ${key}`;
+    const rule = RULE_OVERRIDES[key];
+    if (getRuleValue(mode, key) === undefined) {
+      return `${rule.label} does not apply to ${mode.name}`;
+    }
+    if (rule.type === "boolean") {
+      if (typeof value !== "boolean") return `${rule.label} must be on or off`;
+    } else if (
+      !Number.isInteger(value) ||
+      value < rule.min ||
+      value > rule.max
+    ) {
+      return `${rule.label} must be between ${rule.min} and ${rule.max}`;
+    }
+  }
+
+  const handSize = overrides.handSize ?? mode.handSize;
+  const cardsPerDiscard = overrides.cardsPerDiscard ?? mode.discards.maxCards;
+  if (cardsPerDiscard > handSize) {
+    return "Cards per discard cannot be more than the hand size";
+  }
+  const tokens = overrides.discardTokens ?? mode.discards.tokens;
+  const maxTokens = overrides.discardBank ?? mode.discards.maxTokens;
+  if (tokens > maxTokens) {
+    return "Discard tokens cannot be more than the token bank";
+  }
+  return null;
+}
+
+// The overrides that actually differ from the mode, what the lobby shows
+// a joining player. Expects overrides that passed validateRuleOverrides.
+function getChangedRules(mode, overrides) {
+  return Object.fromEntries(
+    Object.entries(overrides).filter(
+      ([key, value]) => getRuleValue(mode, key) !== value
+    )
+  );
+}
+
+// A copy of the mode with the overrides written into it, the rules a room
+// plays by
+function applyRuleOverrides(mode, overrides) {
+  const rules = JSON.parse(JSON.stringify(mode));
+  Object.entries(overrides).forEach(([key, value]) => {
+    const path = RULE_OVERRIDES[key].path;
+    const parent = path
+      .slice(0, -1)
+      .reduce((target, step) => target[step], rules);
+    parent[path[path.length - 1]] = value;
+  });
+  return rules;
+}
+
+module.exports = {
+  DEFAULT_GAME_MODE,
+  RULE_OVERRIDES,
+  applyRuleOverrides,
+  getChangedRules,
+  getGameMode,
+  listGameModes,
+  validateRuleOverrides,
+};
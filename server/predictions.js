@@ -0,0 +1,21 @@
+// Sealed predictions. Until the attack it guesses resolves, the other players
+// only learn a commitment to a prediction: a hash of it and a random salt.
+// The reveal sends the salt, so clients can check the prediction they are
+// shown is the one that was locked in.
+const crypto = require("crypto");
+
+function getCommitment(prediction, salt) {
+  return crypto
+    .createHash("sha256")
+    .update(`${salt}:${prediction}`)
+    .digest("hex");
+}
+
+function sealPrediction(prediction) {
+  const salt = crypto.randomBytes(16).toString("hex");
+  return { salt, commitment: getCommitment(prediction, salt) };
+}
+
+module.exports = {
+  sealPrediction,
+};
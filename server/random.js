@@ -0,0 +1,56 @@
+// Seedable randomness for everything that decides which cards a player gets.
+// The same seed and the same sequence of actions always deal the same cards.
+const crypto = require("crypto");
+
+function randomSeed() {
+  return crypto.randomBytes(4).readUInt32BE(0);
+}
+
+// Accepts an unsigned 32-bit integer or any other string, which is hashed
+// (FNV-1a) so seeds like "bug-142" work. Returns null for anything else.
+function normalizeSeed(value) {
+  if (typeof value === "number") {
+    return Number.isInteger(value) && value >= 0 && value <= 0xffffffff
+      ? value
+      : null;
+  }
+  if (typeof value !== "string" || value.trim() === "") return null;
+
+  const text = value.trim();
+  if (/^\d+$/.test(text)) return normalizeSeed(Number(text));
+
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash;
+}
+
+// mulberry32: returns a function producing floats in [0, 1) like Math.random
+function createRng(seed) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Fisher-Yates, in place
+function shuffle(items, rng) {
+  for (let i = items.length - 1; i > 0; i--) {
+    const j = Math.floor(rng() * (i + 1));
+    [items[i], items[j]] = [items[j], items[i]];
+  }
+  return items;
+}
+
+module.exports = {
+  randomSeed,
+  normalizeSeed,
+  createRng,
+  shuffle,
+};
@@ -0,0 +1,102 @@
+// Elo ratings for ranked games, one rating per player and game mode
+const db = require("./db");
+
+const STARTING_RATING = 1200;
+// How far a single game can move a rating
+const K_FACTOR = 32;
+const LEADERBOARD_SIZE = 50;
+
+const selectRating = db.prepare(`
+  SELECT name, game_mode AS gameMode, rating, games, wins, losses
+  FROM ratings
+  WHERE name = ? AND game_mode = ?
+`);
+
+const upsertRating = db.prepare(`
+  INSERT INTO ratings (name, game_mode, rating, games, wins, losses, updated_at)
+  VALUES (@name, @gameMode, @rating, 1, @won, 1 - @won, @updatedAt)
+  ON CONFLICT (name, game_mode) DO UPDATE SET
+    rating = @rating,
+    games = games + 1,
+    wins = wins + @won,
+    losses = losses + 1 - @won,
+    updated_at = @updatedAt
+`);
+
+const selectLeaderboard = db.prepare(`
+  SELECT name, rating, games, wins, losses
+  FROM ratings
+  WHERE game_mode = ?
+  ORDER BY rating DESC, games DESC
+  LIMIT ${LEADERBOARD_SIZE}
+`);
+
+const selectPlayerRatings = db.prepare(`
+  SELECT game_mode AS gameMode, rating, games, wins, losses
+  FROM ratings
+  WHERE name = ?
+`);
+
+function getRating(name, gameMode) {
+  const row = selectRating.get(name, gameMode);
+  return row ? row.rating : STARTING_RATING;
+}
+
+function expectedScore(rating, opponentRating) {
+  return 1 / (1 + Math.pow(10, (opponentRating - rating) / 400));
+}
+
+const recordRatedGameTransaction = db.transaction((gameMode, winner, loser) => {
+  const winnerBefore = getRating(winner, gameMode);
+  const loserBefore = getRating(loser, gameMode);
+  const change = Math.round(
+    K_FACTOR * (1 - expectedScore(winnerBefore, loserBefore))
+  );
+  const updatedAt = Date.now();
+
+  upsertRating.run({
+    name: winner,
+    gameMode,
+    rating: winnerBefore + change,
+    won: 1,
+    updatedAt,
+  });
+  upsertRating.run({
+    name: loser,
+    gameMode,
+    rating: loserBefore - change,
+    won: 0,
+    updatedAt,
+  });
+
+  return {
+    winner: { before: winnerBefore, after: winnerBefore + change },
+    loser: { before: loserBefore, after: loserBefore - change },
+  };
+});
+
+// Applies a ranked result, returns { winner, loser } as { before, after }
+function recordRatedGame(gameMode, winnerName, loserName) {
+  try {
+    return recordRatedGameTransaction(gameMode, winnerName, loserName);
+  } catch (error) {
+    console.error(`❌ Failed to update ratings for ${gameMode}:`, error);
+    return null;
+  }
+}
+
+function getLeaderboard(gameMode) {
+  return selectLeaderboard.all(gameMode);
+}
+
+function getPlayerRatings(name) {
+  return selectPlayerRatings.all(name);
+}
+
+module.exports = {
+  STARTING_RATING,
+  getRating,
+  recordRatedGame,
+  getLeaderboard,
+  getPlayerRatings,
+};
@@ -0,0 +1,41 @@
+// Per-socket rate limiting and the security log. Security events are written
+// as one JSON object per line so they can be filtered out of the game log.
+
+// Every socket can send a burst of this many events, then this many a second
+const RATE_LIMIT_BURST = 60;
+const RATE_LIMIT_PER_SECOND = 20;
+
+// Token bucket for one socket. Returns a function that takes a token and
+// tells whether the event is allowed.
+function createRateLimiter(now = Date.now) {
+  let tokens = RATE_LIMIT_BURST;
+  let refilledAt = now();
+
+  return () => {
+    const time = now();
+    tokens = Math.min(
+      RATE_LIMIT_BURST,
+      tokens + ((time - refilledAt) / 1000) * RATE_LIMIT_PER_SECOND
+    );
+    refilledAt = time;
+    if (tokens < 1) return false;
+    tokens--;
+    return true;
+  };
+}
+
+// type names what happened, details say who and with what
+function logSecurityEvent(type, details) {
+  console.warn(
+    JSON.stringify({
+      security: type,
+      at: new Date().toISOString(),
+      ...details,
+    })
+  );
+}
+
+module.exports = {
+  createRateLimiter,
+  logSecurityEvent,
+};
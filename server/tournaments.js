@@ -0,0 +1,303 @@
+// Tournaments: players register by name, then play single elimination or
+// Swiss rounds. Only the brackets live here, index.js seats every pairing in a
+// room of its own and reports the results back.
+const { v4: uuidv4 } = require("uuid");
+const { createRng, randomSeed, shuffle } = require("./random");
+
+const TOURNAMENT_FORMATS = ["singleElimination", "swiss"];
+const MIN_ENTRANTS = 2;
+const MAX_ENTRANTS = 32;
+const MAX_TOURNAMENT_NAME_LENGTH = 40;
+
+// id -> tournament
+const tournaments = new Map();
+
+const sameName = (a, b) => a.toLowerCase() === b.toLowerCase();
+
+function createTournament({ name, format, gameMode, bestOf, organizer }) {
+  const tournament = {
+    id: uuidv4(),
+    name,
+    format,
+    gameMode,
+    bestOf,
+    organizer,
+    // registering -> running -> finished
+    status: "registering",
+    entrants: [],
+    // One array of matches per round:
+    // { id, round, entrants: [name, name | null], winner, roomId }
+    // A match against null is a bye, won without playing.
+    rounds: [],
+    totalRounds: null,
+    winner: null,
+    createdAt: Date.now(),
+  };
+  tournaments.set(tournament.id, tournament);
+  return tournament;
+}
+
+function getTournament(id) {
+  return tournaments.get(id) || null;
+}
+
+function listTournaments() {
+  return [...tournaments.values()].sort((a, b) => b.createdAt - a.createdAt);
+}
+
+// Returns what keeps the player from registering, or null
+function addEntrant(tournament, name) {
+  if (tournament.status !== "registering") {
+    return "Registration for this tournament is closed";
+  }
+  if (tournament.entrants.some((entrant) => sameName(entrant, name))) {
+    return "You are already registered";
+  }
+  if (tournament.entrants.length >= MAX_ENTRANTS) {
+    return "This tournament is full";
+  }
+  tournament.entrants.push(name);
+  return null;
+}
+
+// Returns true if the player was registered
+function removeEntrant(tournament, name) {
+  if (tournament.status !== "registering") return false;
+  const index = tournament.entrants.findIndex((entrant) =>
+    sameName(entrant, name)
+  );
+  if (index === -1) return false;
+  tournament.entrants.splice(index, 1);
+  return true;
+}
+
+function createMatch(round, entrants) {
+  return {
+    id: uuidv4(),
+    round,
+    entrants,
+    winner: entrants[1] === null ? entrants[0] : null,
+    roomId: null,
+  };
+}
+
+// Seeds in bracket order, so the top seeds only meet in the late rounds:
+// 8 slots give 1v8, 4v5, 2v7, 3v6 (zero-based here)
+function getBracketOrder(size) {
+  let order = [0];
+  while (order.length < size) {
+    const slots = order.length * 2;
+    order = order.flatMap((seed) => [seed, slots - 1 - seed]);
+  }
+  return order;
+}
+
+function pairSingleElimination(tournament) {
+  const round = tournament.rounds.length + 1;
+
+  if (round === 1) {
+    // Missing seeds at the bottom of the bracket are byes for the top seeds
+    const size = 2 ** tournament.totalRounds;
+    const order = getBracketOrder(size);
+    const matches = [];
+    for (let i = 0; i < size; i += 2) {
+      matches.push(
+        createMatch(round, [
+          tournament.entrants[order[i]],
+          tournament.entrants[order[i + 1]] ?? null,
+        ])
+      );
+    }
+    return matches;
+  }
+
+  const previous = tournament.rounds[round - 2];
+  const matches = [];
+  for (let i = 0; i < previous.length; i += 2) {
+    matches.push(
+      createMatch(round, [previous[i].winner, previous[i + 1].winner])
+    );
+  }
+  return matches;
+}
+
+// Points, byes and opponents per entrant from the rounds played so far
+function getRecords(tournament) {
+  const records = new Map(
+    tournament.entrants.map((name, seed) => [
+      name,
+      { name, seed, wins: 0, losses: 0, byes: 0, opponents: [] },
+    ])
+  );
+
+  tournament.rounds.flat().forEach((match) => {
+    const [a, b] = match.entrants;
+    if (b === null) {
+      records.get(a).byes++;
+      return;
+    }
+    records.get(a).opponents.push(b);
+    records.get(b).opponents.push(a);
+    if (!match.winner) return;
+    records.get(match.winner).wins++;
+    records.get(match.winner === a ? b : a).losses++;
+  });
+
+  return records;
+}
+
+// Swiss standings: a win or a bye is a point, ties are broken by the points
+// of everyone the entrant played (Buchholz), then by seed
+function getStandings(tournament) {
+  const records = getRecords(tournament);
+  const points = (record) => record.wins + record.byes;
+
+  return [...records.values()]
+    .map((record) => ({
+      name: record.name,
+      seed: record.seed,
+      wins: record.wins,
+      losses: record.losses,
+      byes: record.byes,
+      points: points(record),
+      buchholz: record.opponents.reduce(
+        (sum, opponent) => sum + points(records.get(opponent)),
+        0
+      ),
+    }))
+    .sort(
+      (a, b) =>
+        b.points - a.points || b.buchholz - a.buchholz || a.seed - b.seed
+    );
+}
+
+// Pairs entrants on equal points, avoiding rematches where possible. With an
+// odd field the lowest ranked entrant without a bye sits the round out.
+function pairSwiss(tournament) {
+  const round = tournament.rounds.length + 1;
+  const records = getRecords(tournament);
+  const unpaired = getStandings(tournament).map((standing) => standing.name);
+  const matches = [];
+
+  if (unpaired.length % 2 === 1) {
+    const byeIndex = unpaired
+      .map((name, index) => ({ name, index }))
+      .reverse()
+      .find(({ name }) => records.get(name).byes === 0);
+    const [bye] = unpaired.splice(
+      byeIndex ? byeIndex.index : unpaired.length - 1,
+      1
+    );
+    matches.push(createMatch(round, [bye, null]));
+  }
+
+  while (unpaired.length > 0) {
+    const name = unpaired.shift();
+    const played = records.get(name).opponents;
+    const index = unpaired.findIndex((other) => !played.includes(other));
+    const [opponent] = unpaired.splice(index === -1 ? 0 : index, 1);
+    matches.push(createMatch(round, [name, opponent]));
+  }
+
+  // Byes are listed last
+  return matches.sort(
+    (a, b) => (a.entrants[1] === null) - (b.entrants[1] === null)
+  );
+}
+
+function pairRound(tournament) {
+  return tournament.format === "swiss"
+    ? pairSwiss(tournament)
+    : pairSingleElimination(tournament);
+}
+
+// Closes registration, seeds the field at random and pairs the first round.
+// Returns what keeps the tournament from starting, or null.
+function startTournament(tournament) {
+  if (tournament.status !== "registering") {
+    return "This tournament has already started";
+  }
+  if (tournament.entrants.length < MIN_ENTRANTS) {
+    return `A tournament needs at least ${MIN_ENTRANTS} players`;
+  }
+
+  shuffle(tournament.entrants, createRng(randomSeed()));
+  tournament.totalRounds = Math.ceil(Math.log2(tournament.entrants.length));
+  tournament.status = "running";
+  tournament.rounds.push(pairRound(tournament));
+  return null;
+}
+
+function getCurrentRound(tournament) {
+  return tournament.rounds[tournament.rounds.length - 1] || [];
+}
+
+function findMatch(tournament, matchId) {
+  return getCurrentRound(tournament).find((match) => match.id === matchId);
+}
+
+// Returns what is wrong with the result, or null once it is recorded
+function recordResult(tournament, matchId, winner) {
+  const match = findMatch(tournament, matchId);
+  if (!match) return "Match not found";
+  if (match.winner) return "This match already has a winner";
+
+  const name = match.entrants.find(
+    (entrant) => entrant && sameName(entrant, winner)
+  );
+  if (!name) return "The winner has to be one of the players";
+  match.winner = name;
+  return null;
+}
+
+// Once every match of the round has a winner, pairs the next round or ends
+// the tournament. Returns the matches that now need to be played.
+function advanceTournament(tournament) {
+  if (
+    tournament.status !== "running" ||
+    getCurrentRound(tournament).some((match) => !match.winner)
+  ) {
+    return [];
+  }
+
+  if (tournament.rounds.length >= tournament.totalRounds) {
+    tournament.status = "finished";
+    tournament.winner =
+      tournament.format === "swiss"
+        ? getStandings(tournament)[0].name
+        : getCurrentRound(tournament)[0].winner;
+    return [];
+  }
+
+  const matches = pairRound(tournament);
+  tournament.rounds.push(matches);
+  return matches.filter((match) => !match.winner);
+}
+
+// The current round's match a player still has to play, if any
+function getPendingMatch(tournament, name) {
+  return (
+    getCurrentRound(tournament).find(
+      (match) =>
+        !match.winner &&
+        match.entrants.some((entrant) => entrant && sameName(entrant, name))
+    ) || null
+  );
+}
+
+module.exports = {
+  MAX_TOURNAMENT_NAME_LENGTH,
+  TOURNAMENT_FORMATS,
+  addEntrant,
+  advanceTournament,
+  createTournament,
+  findMatch,
+  getCurrentRound,
+  getPendingMatch,
+  getStandings,
+  getTournament,
+  listTournaments,
+  recordResult,
+  removeEntrant,
+  startTournament,
+};
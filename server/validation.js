@@ -0,0 +1,310 @@
+// Shapes of the events clients send. Every event lists its arguments and
+// index.js drops anything that doesn't match before a handler sees it, so
+// handlers can rely on types and only check the game rules.
+const { HAND_TYPES } = require("../shared/rules");
+const { getGameMode } = require("./modes");
+
+const MAX_PLAYER_NAME_LENGTH = 20;
+const MAX_ROOM_NAME_LENGTH = 40;
+// Upper bound for ids, codes and tokens, all of them are shorter
+const MAX_ID_LENGTH = 64;
+// Hard cap on chat payloads, chat.js has the real limit and a friendlier error
+const MAX_TEXT_LENGTH = 1000;
+
+// Control and formatting characters, invisible or able to break the layout
+const HIDDEN_CHARACTERS = /\p{C}/u;
+
+// Checked against names with spacing, punctuation and look-alike digits
+// removed, so only words that don't hide inside harmless ones are listed
+const BLOCKED_WORDS = [
+  "fuck",
+  "shit",
+  "bitch",
+  "bastard",
+  "whore",
+  "slut",
+  "nigger",
+  "nigga",
+  "faggot",
+  "retard",
+  "twat",
+];
+
+const LOOK_ALIKES = {
+  0: "o",
+  1: "i",
+  3: "e",
+  4: "a",
+  5: "s",
+  7: "t",
+  "@": "a",
+  $: "s",
+};
+
+// Schema builders. Every schema can be marked optional (undefined is fine)
+// or nullable (null is fine).
+const string = (maxLength, options) => ({
+  type: "string",
+  maxLength,
+  ...options,
+});
+const integer = (min, max, options) => ({
+  type: "integer",
+  min,
+  max,
+  ...options,
+});
+const boolean = (options) => ({ type: "boolean", ...options });
+const oneOf = (values, options) => ({ type: "oneOf", values, ...options });
+const object = (fields, options) => ({ type: "object", fields, ...options });
+// Any keys, every value matching the schema
+const record = (values, maxKeys, options) => ({
+  type: "record",
+  values,
+  maxKeys,
+  ...options,
+});
+const either = (schemas, options) => ({ type: "either", schemas, ...options });
+// An array of at most maxLength values, every one matching the schema
+const list = (values, maxLength, options) => ({
+  type: "list",
+  values,
+  maxLength,
+  ...options,
+});
+const gameMode = (options) => ({ type: "gameMode", ...options });
+
+const id = (options) => string(MAX_ID_LENGTH, options);
+const roomAction = object({ roomId: id() });
+
+// event -> schemas of its arguments, events missing here are rejected
+const EVENT_SCHEMAS = {
+  setPlayerName: [string(MAX_PLAYER_NAME_LENGTH * 2)],
+  resumeSession: [id()],
+  requestSnapshot: [roomAction],
+  getRooms: [],
+  createRoom: [
+    object({
+      roomName: string(MAX_ROOM_NAME_LENGTH * 2),
+      gameMode: gameMode({ optional: true }),
+      turnClock: string(MAX_ID_LENGTH, { optional: true }),
+      timeoutAction: string(MAX_ID_LENGTH, { optional: true }),
+      botDifficulty: string(MAX_ID_LENGTH, { optional: true, nullable: true }),
+      seed: either([string(MAX_ID_LENGTH), integer(0, 2 ** 32)], {
+        optional: true,
+        nullable: true,
+      }),
+      openHands: boolean({ optional: true }),
+      rules: record(either([integer(-1e6, 1e6), boolean()]), 20, {
+        optional: true,
+      }),
+      private: boolean({ optional: true }),
+      password: string(MAX_TEXT_LENGTH, { optional: true }),
+      maxPlayers: integer(1, 16, { optional: true }),
+      teams: boolean({ optional: true }),
+      bestOf: integer(1, 99, { optional: true }),
+    }),
+  ],
+  getLiveRooms: [],
+  spectateRoom: [id()],
+  stopSpectating: [],
+  joinRankedQueue: [object({ gameMode: gameMode() })],
+  leaveRankedQueue: [],
+  joinRoom: [
+    id(),
+    object(
+      {
+        acceptedRules: boolean({ optional: true }),
+        password: string(MAX_TEXT_LENGTH, { optional: true }),
+      },
+      { optional: true }
+    ),
+  ],
+  joinByInvite: [
+    object({
+      code: string(MAX_ID_LENGTH),
+      acceptedRules: boolean({ optional: true }),
+      password: string(MAX_TEXT_LENGTH, { optional: true }),
+    }),
+  ],
+  getInvite: [string(MAX_ID_LENGTH)],
+  selectCard: [object({ roomId: id(), cardId: id() })],
+  markForDiscard: [object({ roomId: id(), cardId: id() })],
+  discardCards: [roomAction],
+  makePrediction: [object({ roomId: id(), prediction: oneOf(HAND_TYPES) })],
+  playHand: [
+    object({ roomId: id(), targetIndex: integer(0, 15, { optional: true }) }),
+  ],
+  passCard: [object({ roomId: id(), cardId: id() })],
+  setParry: [object({ roomId: id(), cardIds: list(id(), 5) })],
+  buildArmor: [roomAction],
+  requestRematch: [roomAction],
+  acceptRematch: [roomAction],
+  declineRematch: [roomAction],
+  getOnlinePlayers: [],
+  getLobbyChat: [],
+  sendLobbyChatMessage: [
+    object({
+      text: string(MAX_TEXT_LENGTH, { optional: true }),
+      emote: string(MAX_ID_LENGTH, { optional: true }),
+    }),
+  ],
+  challengePlayer: [
+    object({ playerId: id(), gameMode: gameMode({ optional: true }) }),
+  ],
+  respondToChallenge: [object({ challengeId: id(), accept: boolean() })],
+  getChatHistory: [roomAction],
+  sendChatMessage: [
+    object({
+      roomId: id(),
+      text: string(MAX_TEXT_LENGTH, { optional: true }),
+      emote: string(MAX_ID_LENGTH, { optional: true }),
+    }),
+  ],
+  getTournaments: [],
+  createTournament: [
+    object({
+      name: string(MAX_ROOM_NAME_LENGTH * 2),
+      format: string(MAX_ID_LENGTH),
+      gameMode: gameMode({ optional: true }),
+      bestOf: integer(1, 99, { optional: true }),
+    }),
+  ],
+  joinTournament: [id()],
+  leaveTournament: [id()],
+  startTournament: [id()],
+  joinTournamentMatch: [id()],
+  awardTournamentMatch: [
+    object({
+      tournamentId: id(),
+      matchId: id(),
+      winner: string(MAX_PLAYER_NAME_LENGTH * 2),
+    }),
+  ],
+  leaveRoom: [],
+};
+
+const isPlainObject = (value) =>
+  typeof value === "object" &&
+  value !== null &&
+  Object.getPrototypeOf(value) === Object.prototype;
+
+// Returns what is wrong with the value, or null
+function checkValue(schema, value, name) {
+  if (value === undefined) {
+    return schema.optional ? null : `${name} is missing`;
+  }
+  if (value === null) {
+    return schema.nullable ? null : `${name} can't be empty`;
+  }
+
+  switch (schema.type) {
+    case "string":
+      return typeof value === "string" && value.length <= schema.maxLength
+        ? null
+        : `${name} must be text of at most ${schema.maxLength} characters`;
+    case "integer":
+      return Number.isInteger(value) &&
+        value >= schema.min &&
+        value <= schema.max
+        ? null
+        : `${name} must be a whole number from ${schema.min} to ${schema.max}`;
+    case "boolean":
+      return typeof value === "boolean"
+        ? null
+        : `${name} must be true or false`;
+    case "oneOf":
+      return schema.values.includes(value)
+        ? null
+        : `${name} must be one of ${schema.values.join(", ")}`;
+    case "gameMode":
+      return typeof value === "string" && getGameMode(value)
+        ? null
+        : "Unknown game mode";
+    case "either":
+      return schema.schemas.some((option) => !checkValue(option, value, name))
+        ? null
+        : `${name} has the wrong type`;
+    case "object": {
+      if (!isPlainObject(value)) return `${name} must be an object`;
+      const unknown = Object.keys(value).find(
+        (key) => !Object.hasOwn(schema.fields, key)
+      );
+      if (unknown) return `Unexpected field ${unknown}`;
+      for (const [key, field] of Object.entries(schema.fields)) {
+        const error = checkValue(field, value[key], key);
+        if (error) return error;
+      }
+      return null;
+    }
+    case "list": {
+      if (!Array.isArray(value)) return `${name} must be a list`;
+      if (value.length > schema.maxLength) {
+        return `${name} has more than ${schema.maxLength} entries`;
+      }
+      for (const entry of value) {
+        const error = checkValue(schema.values, entry, name);
+        if (error) return error;
+      }
+      return null;
+    }
+    case "record": {
+      if (!isPlainObject(value)) return `${name} must be an object`;
+      const entries = Object.entries(value);
+      if (entries.length > schema.maxKeys)
+        return `${name} has too many entries`;
+      for (const [key, entry] of entries) {
+        const error = checkValue(schema.values, entry, key);
+        if (error) return error;
+      }
+      return null;
+    }
+    default:
+      return `${name} can't be checked`;
+  }
+}
+
+// Returns what is wrong with an event's arguments, or null
+function checkEvent(event, args) {
+  if (!Object.hasOwn(EVENT_SCHEMAS, event)) return `Unknown event ${event}`;
+
+  const schemas = EVENT_SCHEMAS[event];
+  // Acknowledgement callbacks are not used, so they count as extra arguments
+  if (args.length > schemas.length) return `Too many arguments for ${event}`;
+
+  for (let i = 0; i < schemas.length; i++) {
+    const error = checkValue(schemas[i], args[i], event);
+    if (error) return error;
+  }
+  return null;
+}
+
+// The profanity filter, index.js logs every name it catches
+function containsBlockedWord(text) {
+  const normalized = [...text.toLowerCase()]
+    .map((char) => LOOK_ALIKES[char] || char)
+    .join("")
+    .replace(/[^\p{L}]/gu, "");
+  return BLOCKED_WORDS.some((word) => normalized.includes(word));
+}
+
+// Length rules for names other players see: player, room and tournament
+// names. Returns what is wrong with the name, or null.
+function checkName(name, maxLength, label) {
+  const trimmed = typeof name === "string" ? name.trim() : "";
+  if (!trimmed || trimmed.length > maxLength) {
+    return `${label} are 1 to ${maxLength} characters`;
+  }
+  if (HIDDEN_CHARACTERS.test(trimmed)) {
+    return `${label} can't contain hidden characters`;
+  }
+  return null;
+}
+
+module.exports = {
+  MAX_PLAYER_NAME_LENGTH,
+  MAX_ROOM_NAME_LENGTH,
+  checkEvent,
+  checkName,
+  containsBlockedWord,
+};
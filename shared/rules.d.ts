@@ -0,0 +1,66 @@
+// Type declarations for rules.js, imported by the frontend as "@shared/rules"
+
+export type Suit = "hearts" | "diamonds" | "clubs" | "spades"
+
+export interface PlayingCard {
+  id: string
+  suit: Suit
+  rank: number
+  selected: boolean
+  markedForDiscard: boolean
+}
+
+/** The part of a card the evaluators look at */
+export type CardFace = Pick<PlayingCard, "suit" | "rank">
+
+export type HandType =
+  | "Royal Flush"
+  | "Straight Flush"
+  | "Four of a Kind"
+  | "Full House"
+  | "Flush"
+  | "Straight"
+  | "Three of a Kind"
+  | "Two Pair"
+  | "One Pair"
+  | "High Card"
+
+export interface HandRanking {
+  damage: number
+  description: string
+}
+
+export interface HandValidation {
+  valid: boolean
+  error?: string
+}
+
+export interface HandEvaluation {
+  valid: boolean
+  type: HandType | "No Cards" | "Invalid Hand"
+  damage: number
+  baseDamage: number
+  faceValueDamage: number
+  description: string
+  error?: string
+}
+
+export interface EvaluateOptions {
+  /** Adds the card values to the base damage, on unless a room turns it off */
+  faceValueDamage?: boolean
+}
+
+export const SUITS: Suit[]
+export const HAND_RANKINGS: Record<HandType, HandRanking>
+/** Hand types from strongest to weakest */
+export const HAND_TYPES: HandType[]
+export const ARMOR_VALUES: Record<HandType, number>
+
+export function isHandType(value: unknown): value is HandType
+export function getCardValue(card: CardFace): number
+export function getFaceValueDamage(cards: CardFace[]): number
+export function validateHand(cards: CardFace[]): HandValidation
+/** Assumes the cards already passed validateHand */
+export function getHandType(cards: CardFace[]): HandType
+export function evaluateHand(cards: CardFace[], options?: EvaluateOptions): HandEvaluation
+export function getArmorValue(handType: string): number
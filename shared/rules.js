@@ -0,0 +1,209 @@
+// Game rules shared by the server and the frontend.
+// The server is authoritative, the client uses the same functions for previews,
+// so any change here applies to both sides at once.
+
+const SUITS = ["hearts", "diamonds", "clubs", "spades"];
+
+const HAND_RANKINGS = {
+  "Royal Flush": { damage: 150, description: "A, K, Q, J, 10 of same suit" },
+  "Straight Flush": {
+    damage: 80,
+    description: "5 consecutive cards of same suit",
+  },
+  "Four of a Kind": { damage: 60, description: "4 cards of same rank" },
+  "Full House": { damage: 45, description: "3 of a kind + pair" },
+  Flush: { damage: 30, description: "5 cards of same suit" },
+  Straight: { damage: 25, description: "5 consecutive cards" },
+  "Three of a Kind": { damage: 20, description: "3 cards of same rank" },
+  "Two Pair": { damage: 10, description: "2 pairs of different ranks" },
+  "One Pair": { damage: 5, description: "2 cards of same rank" },
+  "High Card": { damage: 1, description: "Highest card" },
+};
+
+// Hand types from strongest to weakest
+const HAND_TYPES = Object.keys(HAND_RANKINGS);
+
+// Armor gained in Tactical mode when a hand is used to build armor
+const ARMOR_VALUES = {
+  "Royal Flush": 35,
+  "Straight Flush": 30,
+  "Four of a Kind": 25,
+  "Full House": 22,
+  Flush: 18,
+  Straight: 15,
+  "Three of a Kind": 12,
+  "Two Pair": 8,
+  "One Pair": 5,
+  "High Card": 2,
+};
+
+function isHandType(value) {
+  return typeof value === "string" && HAND_TYPES.includes(value);
+}
+
+// Face value of a single card: A=14, K=13, Q=12, J=11, others their rank
+function getCardValue(card) {
+  return card.rank === 1 ? 14 : card.rank;
+}
+
+function getFaceValueDamage(cards) {
+  return cards.reduce((total, card) => total + getCardValue(card), 0);
+}
+
+// Shape of the cards that both validation and evaluation need
+function analyzeCards(cards) {
+  const sortedCards = [...cards].sort((a, b) => a.rank - b.rank);
+  const ranks = sortedCards.map((c) => c.rank);
+  const suits = sortedCards.map((c) => c.suit);
+
+  const rankCounts = {};
+  ranks.forEach((rank) => {
+    rankCounts[rank] = (rankCounts[rank] || 0) + 1;
+  });
+
+  const counts = Object.values(rankCounts).sort((a, b) => b - a);
+  const isFlush =
+    suits.every((suit) => suit === suits[0]) && cards.length === 5;
+
+  let isStraight = false;
+  let isLowStraight = false;
+  let isBroadwayStraight = false;
+
+  if (cards.length === 5 && new Set(ranks).size === 5) {
+    // A,2,3,4,5 and A,10,J,Q,K are the only straights that use the ace
+    isLowStraight = ranks.join(",") === "1,2,3,4,5";
+    isBroadwayStraight = ranks.join(",") === "1,10,11,12,13";
+    if (!isLowStraight) {
+      isStraight = ranks[4] - ranks[0] === 4;
+    }
+  }
+
+  return {
+    counts,
+    isFlush,
+    isStraight: isStraight || isLowStraight || isBroadwayStraight,
+    isRoyal: isFlush && isBroadwayStraight,
+  };
+}
+
+function validateHand(cards) {
+  if (cards.length === 0) return { valid: false, error: "No cards selected" };
+
+  const { counts, isFlush, isStraight } = analyzeCards(cards);
+
+  switch (cards.length) {
+    case 1:
+      return { valid: true };
+    case 2:
+      if (counts[0] !== 2) {
+        return { valid: false, error: "Two cards must be a pair (same rank)" };
+      }
+      return { valid: true };
+    case 3:
+      if (counts[0] !== 3) {
+        return {
+          valid: false,
+          error: "Three cards must be three of a kind (same rank)",
+        };
+      }
+      return { valid: true };
+    case 4:
+      if (counts[0] === 4) {
+        return { valid: true };
+      }
+      if (counts[0] === 2 && counts[1] === 2) {
+        return { valid: true };
+      }
+      return {
+        valid: false,
+        error: "Four cards must be either four of a kind or two pair",
+      };
+    case 5:
+      if (isFlush || isStraight) return { valid: true };
+      if (counts[0] === 3 && counts[1] === 2) return { valid: true };
+      return {
+        valid: false,
+        error:
+          "5 cards must form: Straight, Flush, Full House, Straight Flush, or Royal Flush",
+      };
+    default:
+      return {
+        valid: false,
+        error: `Invalid number of cards: ${cards.length}. Play 1, 2, 3, 4, or 5 cards only.`,
+      };
+  }
+}
+
+function getHandType(cards) {
+  const { counts, isFlush, isStraight, isRoyal } = analyzeCards(cards);
+
+  if (isRoyal) return "Royal Flush";
+  if (isFlush && isStraight) return "Straight Flush";
+  if (counts[0] === 4) return "Four of a Kind";
+  if (counts[0] === 3 && counts[1] === 2) return "Full House";
+  if (isFlush) return "Flush";
+  if (isStraight) return "Straight";
+  if (counts[0] === 3) return "Three of a Kind";
+  if (counts[0] === 2 && counts[1] === 2) return "Two Pair";
+  if (counts[0] === 2) return "One Pair";
+  return "High Card";
+}
+
+// With faceValueDamage: false the card values are left out and only the
+// hand's base damage counts, for rooms that turn face value off
+function evaluateHand(cards, { faceValueDamage: withFaceValue = true } = {}) {
+  if (cards.length === 0) {
+    return {
+      valid: false,
+      type: "No Cards",
+      damage: 0,
+      baseDamage: 0,
+      faceValueDamage: 0,
+      description: "No cards selected",
+    };
+  }
+
+  const validation = validateHand(cards);
+  if (!validation.valid) {
+    return {
+      valid: false,
+      type: "Invalid Hand",
+      damage: 0,
+      baseDamage: 0,
+      faceValueDamage: 0,
+      description: validation.error || "Invalid combination",
+      error: validation.error,
+    };
+  }
+
+  const handType = getHandType(cards);
+  const baseDamage = HAND_RANKINGS[handType].damage;
+  const faceValueDamage = withFaceValue ? getFaceValueDamage(cards) : 0;
+
+  return {
+    valid: true,
+    type: handType,
+    damage: baseDamage + faceValueDamage,
+    baseDamage,
+    faceValueDamage,
+    description: `${HAND_RANKINGS[handType].description} (Base: ${baseDamage} + Face: ${faceValueDamage})`,
+  };
+}
+
+function getArmorValue(handType) {
+  return ARMOR_VALUES[handType] || ARMOR_VALUES["High Card"];
+}
+
+module.exports = {
+  SUITS,
+  HAND_RANKINGS,
+  HAND_TYPES,
+  ARMOR_VALUES,
+  isHandType,
+  getCardValue,
+  getFaceValueDamage,
+  validateHand,
+  getHandType,
+  evaluateHand,
+  getArmorValue,
+};